@@ -1,24 +1,90 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import InputPanel from "./components/InputPanel";
 import TaskTree from "./components/TaskTree";
-import SortTags, { SortKey, SortOrder } from "./components/SortTags";
+import SortTags from "./components/SortTags";
 import { DailyReportModal, ReportAnalysis } from './components/DailyReportModal';
-import type { Task, Priority } from "./types";
+import { BackupModal, ImportMode } from "./components/BackupModal";
+import { MarkdownModal } from "./components/MarkdownModal";
+import { CalendarModal } from "./components/CalendarModal";
+import { TrashModal } from "./components/TrashModal";
+import { NoteModal } from "./components/NoteModal";
+import { RecurrenceModal } from "./components/RecurrenceModal";
+import { SessionLogModal } from "./components/SessionLogModal";
+import { DependencyModal } from "./components/DependencyModal";
+import TimerBar from "./components/TimerBar";
+import type { BulkAction } from "./components/BulkActionBar";
+import { TemplateModal } from "./components/TemplateModal";
+import { SettingsModal } from "./components/SettingsModal";
+import { TagManagerModal } from "./components/TagManagerModal";
+import ReminderToasts from "./components/ReminderToasts";
+import type { SmartView, Task, TaskDraft, TaskPatch, TimeSession, TrashItem } from "./types";
+import { loadTasks, saveTasks } from "./utils/storage";
+import { useTaskHistory } from "./hooks/useTaskHistory";
+import { useSettings } from "./hooks/useSettings";
+import { useTrash } from "./hooks/useTrash";
+import { useTemplates } from "./hooks/useTemplates";
+import { useTagColors } from "./hooks/useTagColors";
+import { useViews } from "./hooks/useViews";
+import { useReminders } from "./hooks/useReminders";
+import { useTimer } from "./hooks/useTimer";
+import { countTasks, filterByTags, findById, findPath, flattenTasks, flattenWithDepth, insertAt, insertChild, isDescendant, locate, mapTasks, moveBeside, newId, removeById } from "./utils/tree";
+import { sortTasks } from "./utils/sort";
+import { describeRecurrence, rollRecurring, seriesHistory } from "./utils/recurrence";
+import { formatOffset } from "./utils/reminders";
+import { openBlockers } from "./utils/dependencies";
+import { buildTrackedMap, formatDuration, sessionMs, trackedBetween, trackedMs, withRunningSession } from "./utils/timeTracking";
+import { addDays } from "./utils/date";
+import { instantiateTemplate, taskToTemplate } from "./utils/templates";
+import { applyCompletion } from "./utils/progress";
+import { collectTags, removeTag, renameTag, tagColor } from "./utils/tags";
+import { applySearch } from "./utils/search";
+import { applyQuery, parseQuery } from "./utils/query";
+import { QueryInput } from "./components/QueryInput";
+import { builtInViews, countViewMatches, isBuiltInView, isViewActive } from "./utils/views";
 import "./App.css";
 
-type Filter = "all" | "active" | "done";
 type Mode = "input" | "structure";
 
-const priorityOrder: Record<Priority, number> = { high: 3, medium: 2, low: 1 };
+// Shortcuts that fill in the filter query.
+const FILTER_PRESETS = [
+    { label: "すべて", query: "" },
+    { label: "未完", query: "-done" },
+    { label: "完了", query: "done" },
+];
 
 export default function App() {
-    const [tasks, setTasks] = useState<Task[]>(seed());
-    const [filter, setFilter] = useState<Filter>("all");
+    const { tasks, commit, update, reset, undo, redo, undoLabel, redoLabel } = useTaskHistory();
+    const [loaded, setLoaded] = useState(false);
+    const { settings, updateSettings } = useSettings();
+    const trash = useTrash(settings.trashRetentionDays);
+    const { templates, addTemplate, updateTemplate, removeTemplate } = useTemplates();
+    const tagColors = useTagColors();
+    const savedViews = useViews();
+    const reminders = useReminders(tasks, settings.defaultDueTime, loaded);
+    const recordSession = (taskId: string, session: TimeSession) => {
+        commit(
+            (prev) => `"${titleOf(prev, taskId)}" の作業時間 ${formatDuration(sessionMs(session))} を記録`,
+            (prev) => mapTasks(prev, (t) => (t.id === taskId ? { ...t, sessions: [...(t.sessions ?? []), session] } : t))
+        );
+    };
+    const timer = useTimer(settings.timer, recordSession, loaded);
+    const [filterQuery, setFilterQuery] = useState("");
+    const [tagFilter, setTagFilter] = useState<string[]>([]);
+    const [query, setQuery] = useState("");
     const [mode, setMode] = useState<Mode>("input");
-    const [sortKey, setSortKey] = useState<SortKey>('createdAt');
-    const [sortOrder, setSortOrder] = useState<SortOrder>('desc');
+    const { sortKey, sortOrder, sortOptions } = settings;
 
-    const [noteModalTask, setNoteModalTask] = useState<Task | null>(null);
+    const [noteModalTaskId, setNoteModalTaskId] = useState<string | null>(null);
+    const [recurrenceTaskId, setRecurrenceTaskId] = useState<string | null>(null);
+    const [sessionTaskId, setSessionTaskId] = useState<string | null>(null);
+    const [dependencyTaskId, setDependencyTaskId] = useState<string | null>(null);
+    const [isBackupModalOpen, setIsBackupModalOpen] = useState(false);
+    const [markdownMode, setMarkdownMode] = useState<"import" | "export" | null>(null);
+    const [isCalendarModalOpen, setIsCalendarModalOpen] = useState(false);
+    const [isTrashModalOpen, setIsTrashModalOpen] = useState(false);
+    const [isTemplateModalOpen, setIsTemplateModalOpen] = useState(false);
+    const [isSettingsModalOpen, setIsSettingsModalOpen] = useState(false);
+    const [isTagModalOpen, setIsTagModalOpen] = useState(false);
 
     // --- State for Daily Report Modal ---
     const [isReportModalOpen, setIsReportModalOpen] = useState(false);
@@ -27,79 +93,331 @@ export default function App() {
     const [generatedReport, setGeneratedReport] = useState<string | null>(null);
     // ------------------------------------
 
+    // Restore the saved tree; only a first run (nothing stored yet) falls back to the demo data.
+    // If loading fails we leave saving disabled so the stored data is never overwritten.
+    useEffect(() => {
+        let cancelled = false;
+        loadTasks()
+            .then((saved) => {
+                if (cancelled) return;
+                reset(saved ?? seed());
+                setLoaded(true);
+            })
+            .catch((error) => {
+                console.error("Failed to load tasks:", error);
+                if (!cancelled) window.alert("保存データの読み込みに失敗しました。変更は保存されません。");
+            });
+        return () => { cancelled = true; };
+    }, [reset]);
+
+    useEffect(() => {
+        if (!loaded) return;
+        saveTasks(tasks);
+    }, [tasks, loaded]);
+
+    const loadDemoData = () => {
+        if (!window.confirm("現在のタスクをデモデータで置き換えます。よろしいですか？")) return;
+        commit("デモデータを読み込み", () => seed());
+    };
+
+    // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y). Text fields keep their own native undo.
+    useEffect(() => {
+        const onKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || e.altKey) return;
+            const target = e.target as HTMLElement | null;
+            if (target && (target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))) return;
+            const key = e.key.toLowerCase();
+            if (key === "z" && !e.shiftKey) { e.preventDefault(); undo(); }
+            else if ((key === "z" && e.shiftKey) || key === "y") { e.preventDefault(); redo(); }
+        };
+        window.addEventListener("keydown", onKeyDown);
+        return () => window.removeEventListener("keydown", onKeyDown);
+    }, [undo, redo]);
+
     const counts = useMemo(() => {
         const total = countTasks(tasks);
         const done = countTasks(tasks, (t) => t.done);
         return { total, done, active: total - done };
     }, [tasks]);
 
-    const create = (p: { text: string; priority?: Priority; due?: string; note?: string }) => {
-        const id =
-            typeof crypto !== "undefined" && "randomUUID" in crypto
-                ? crypto.randomUUID()
-                : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
-        setTasks((prev) => [...prev, { id, text: p.text, done: false, children: [], priority: p.priority, due: p.due, note: p.note, createdAt: new Date() }]);
+    // Adding under a collapsed parent expands it so the new task is visible.
+    const addChild = (parentId: string, p: TaskDraft) => {
+        commit(
+            (prev) => `"${p.text}" を "${titleOf(prev, parentId)}" の下に追加`,
+            (prev) => mapTasks(insertChild(prev, parentId, newTask(p)), (t) => (t.id === parentId && t.collapsed ? { ...t, collapsed: false } : t))
+        );
+    };
+
+    const create = (p: TaskDraft, parentId: string | null = null) => {
+        if (parentId) addChild(parentId, p);
+        else commit(`"${p.text}" を追加`, (prev) => [...prev, newTask(p)]);
         setMode("structure");
     };
 
-    const sortedTasks = useMemo(() => {
-        const sort = (tasksToSort: Task[]): Task[] => {
-            const sorted = [...tasksToSort].sort((a, b) => {
-                let comparison = 0;
-                switch (sortKey) {
-                    case 'dueDate':
-                        const dateA = a.due ? new Date(a.due).getTime() : Infinity;
-                        const dateB = b.due ? new Date(b.due).getTime() : Infinity;
-                        comparison = dateA - dateB;
-                        break;
-                    case 'priority':
-                        const priorityA = a.priority ? priorityOrder[a.priority] : 0;
-                        const priorityB = b.priority ? priorityOrder[b.priority] : 0;
-                        comparison = priorityB - priorityA;
-                        break;
-                    case 'createdAt':
-                        comparison = b.createdAt.getTime() - a.createdAt.getTime();
-                        break;
-                }
-                return sortOrder === 'asc' ? comparison : -comparison;
-            });
-            return sorted.map(task => ({ ...task, children: sort(task.children) }));
-        };
-        return sort(tasks);
-    }, [tasks, sortKey, sortOrder]);
+    const createMany = (created: Task[], parentId: string | null) => {
+        const n = countTasks(created);
+        if (parentId) {
+            commit(
+                (prev) => `${n} 件のタスクを "${titleOf(prev, parentId)}" の下に追加`,
+                (prev) => mapTasks(prev, (t) => (t.id === parentId ? { ...t, collapsed: false, children: [...t.children, ...created] } : t))
+            );
+        } else {
+            commit(`${n} 件のタスクを追加`, (prev) => [...prev, ...created]);
+        }
+        setMode("structure");
+    };
+
+    const addSibling = (siblingId: string, p: TaskDraft) => {
+        commit(`"${p.text}" を追加`, (prev) => {
+            const at = locate(prev, siblingId);
+            if (!at) return prev;
+            return insertAt(prev, at.parentId, at.index + 1, newTask(p));
+        });
+    };
+
+    const sortedTasks = useMemo(() => sortTasks(tasks, sortKey, sortOrder, sortOptions), [tasks, sortKey, sortOrder, sortOptions]);
+
+    // What the structure view shows; Markdown export renders exactly this.
+    const parsedFilter = useMemo(() => parseQuery(filterQuery), [filterQuery]);
+    const visibleTasks = useMemo(
+        () => applySearch(filterByTags(applyQuery(sortedTasks, parsedFilter), tagFilter), query),
+        [sortedTasks, parsedFilter, tagFilter, query]
+    );
+
+    const tagList = useMemo(() => collectTags(tasks), [tasks]);
+    const parentTitles = useMemo(() => [...new Set(flattenTasks(tasks).filter((t) => t.children.length > 0).map((t) => t.text))], [tasks]);
+    const toggleTagFilter = (name: string) =>
+        setTagFilter((prev) => (prev.includes(name) ? prev.filter((t) => t !== name) : [...prev, name]));
+
+    const renameTagEverywhere = (from: string, to: string) => {
+        const merging = tagList.some((t) => t.name === to);
+        commit(merging ? `タグ "${from}" を "${to}" に統合` : `タグ "${from}" を "${to}" に変更`, (prev) => renameTag(prev, from, to));
+        tagColors.renameColor(from, to);
+        setTagFilter((prev) => [...new Set(prev.map((t) => (t === from ? to : t)))]);
+    };
+    const deleteTagEverywhere = (name: string) => {
+        commit(`タグ "${name}" を削除`, (prev) => removeTag(prev, name));
+        tagColors.removeColor(name);
+        setTagFilter((prev) => prev.filter((t) => t !== name));
+    };
+
+    /**
+     * Applies the open-subtask rule and warns about open blockers before completing `ids`.
+     * Subtasks and blockers completed in the same step do not count.
+     * Returns the ids that may be completed (tasks blocked by the rule are left out), or null when nothing should happen.
+     */
+    const checkCompletion = (ids: string[]): string[] | null => {
+        const rules = settings.completion;
+        const idSet = new Set(ids);
+        const targets = ids.map((id) => findById(tasks, id)).filter((t): t is Task => !!t && !t.done);
+        const names = (list: Task[]) => list.map((t) => `"${t.text}"`).join("、");
+        // Cascading completes the open descendants anyway, so there is nothing to warn about.
+        const withOpenChildren = rules.cascadeDown
+            ? []
+            : targets.filter((t) => flattenTasks(t.children).some((c) => !c.done && !idSet.has(c.id)));
+        let allowed = targets;
+        if (withOpenChildren.length > 0) {
+            if (rules.openChildren === "block") {
+                alert(`${names(withOpenChildren)} には未完了のサブタスクがあるため完了にできません。`);
+                allowed = targets.filter((t) => !withOpenChildren.includes(t));
+            } else if (rules.openChildren === "warn" && !window.confirm(`${names(withOpenChildren)} には未完了のサブタスクがあります。完了にしますか？`)) {
+                return null;
+            }
+        }
+        const waiting = allowed.map((t) => ({ task: t, on: openBlockers(tasks, t).filter((b) => !idSet.has(b.id)) })).filter((w) => w.on.length > 0);
+        if (waiting.length > 0) {
+            const message = waiting.length === 1
+                ? `"${waiting[0].task.text}" は次のタスクの完了待ちです：\n${waiting[0].on.map((t) => `・${t.text}`).join("\n")}\n完了にしますか？`
+                : `${names(waiting.map((w) => w.task))} は依存しているタスクが未完了です。まとめて完了にしますか？`;
+            if (!window.confirm(message)) return null;
+        }
+        return allowed.length > 0 ? allowed.map((t) => t.id) : null;
+    };
 
     const toggleDone = (id: string) => {
-        setTasks((prev) =>
-            mapTasks(prev, (t) => {
-                if (t.id === id) {
-                    const isNowDone = !t.done;
-                    return { ...t, done: isNowDone, completedAt: isNowDone ? new Date() : undefined };
-                }
-                return t;
-            })
+        const task = findById(tasks, id);
+        if (!task) return;
+        if (!task.done && !checkCompletion([id])) return;
+        if (!task.done && timer.timer?.taskId === id) timer.stop();
+        commit(
+            task.done ? `"${task.text}" を未完に戻す` : `"${task.text}" を完了`,
+            (prev) => completeTasks(prev, [id], !task.done)
         );
     };
+    // Completing a recurring task (directly, by cascade or by roll-up) adds its next occurrence.
+    const completeTasks = (prev: Task[], ids: string[], done: boolean) => {
+        const next = ids.reduce((acc, id) => applyCompletion(acc, id, done, settings.completion), prev);
+        if (!done) return next;
+        const wasDone = new Set(flattenTasks(prev).filter((t) => t.done).map((t) => t.id));
+        return rollRecurring(next, flattenTasks(next).filter((t) => t.done && t.recurrence && !wasDone.has(t.id)).map((t) => t.id));
+    };
 
-    const toggleCollapse = (id: string) => setTasks((prev) => mapTasks(prev, (t) => (t.id === id ? { ...t, collapsed: !t.collapsed } : t)));
-    const removeTask = (id: string) => setTasks((prev) => removeById(prev, id).rest);
+    const toggleCollapse = (id: string) => update((prev) => mapTasks(prev, (t) => (t.id === id ? { ...t, collapsed: !t.collapsed } : t)));
+    // Deleting moves the subtree to the trash, remembering its parent and sibling index for restore.
+    const removeTask = (id: string) => {
+        const task = findById(tasks, id);
+        const origin = locate(tasks, id);
+        if (!task || !origin) return;
+        trash.add({ task, parentId: origin.parentId, index: origin.index, deletedAt: new Date() });
+        commit(`"${task.text}" をゴミ箱へ移動`, (prev) => removeById(prev, id).rest);
+    };
+    // Entries whose task is back in the tree (restored, or the delete was undone) are hidden rather than dropped,
+    // so undoing a restore makes them reappear.
+    const trashItems = useMemo(() => trash.items.filter((item) => !findById(tasks, item.task.id)), [trash.items, tasks]);
+    const restoreFromTrash = (item: TrashItem) => {
+        commit(`"${item.task.text}" をゴミ箱から復元`, (prev) => {
+            if (findById(prev, item.task.id)) return prev;
+            if (item.parentId === null) return insertAt(prev, null, item.index, item.task);
+            if (findById(prev, item.parentId)) return insertAt(prev, item.parentId, item.index, item.task);
+            return [...prev, item.task];
+        });
+    };
     const dropAsChild = (parentId: string, draggedId: string) => {
-        setTasks((prev) => {
+        commit((prev) => `"${titleOf(prev, draggedId)}" を "${titleOf(prev, parentId)}" の下へ移動`, (prev) => {
             if (isDescendant(prev, draggedId, parentId)) return prev;
             const { removed, rest } = removeById(prev, draggedId);
             if (!removed) return prev;
             return insertChild(rest, parentId, removed);
         });
     };
+    // Dropping between cards places the task by hand. When another sort is active, the order currently
+    // on screen is written into the tree first and the view switches to 手動順, so nothing jumps around.
+    const dropBeside = (targetId: string, draggedId: string, position: "before" | "after") => {
+        commit(
+            (prev) => `"${titleOf(prev, draggedId)}" を "${titleOf(prev, targetId)}" の${position === "before" ? "前" : "後"}へ移動`,
+            (prev) => {
+                const base = sortKey === "manual" ? prev : sortTasks(prev, sortKey, sortOrder, sortOptions);
+                const next = moveBeside(base, draggedId, targetId, position);
+                return next === base ? prev : next;
+            }
+        );
+        if (sortKey !== "manual") updateSettings({ sortKey: "manual", sortOrder: "asc" });
+    };
     const dropToRoot = (draggedId: string) => {
-        setTasks((prev) => {
+        commit((prev) => `"${titleOf(prev, draggedId)}" を最上位へ移動`, (prev) => {
             const { removed, rest } = removeById(prev, draggedId);
             if (!removed) return prev;
             return [...rest, removed];
         });
     };
 
-    const openNoteModal = (task: Task) => setNoteModalTask(task);
-    const closeNoteModal = () => setNoteModalTask(null);
+    const importTasks = (imported: Task[], importMode: ImportMode, label: string) => {
+        if (importMode === "replace") {
+            commit("バックアップで置き換え", () => imported);
+            return;
+        }
+        commit(`バックアップを "${label}" として追加`, (prev) => [...prev, { id: newId(), text: label, done: false, children: imported, createdAt: new Date() }]);
+    };
+
+    const updateTask = (id: string, patch: TaskPatch) => {
+        commit(
+            (prev) => describeEdit(titleOf(prev, id), patch),
+            (prev) => mapTasks(prev, (t) => (t.id === id ? { ...t, ...patch } : t))
+        );
+    };
+
+    // Delete and move act on the topmost selected tasks only: a selected descendant goes along with its ancestor.
+    const bulkAction = (ids: string[], action: BulkAction) => {
+        if (ids.length === 0) return;
+        const idSet = new Set(ids);
+        const topmost = ids.filter((id) => !(findPath(tasks, id) ?? []).slice(0, -1).some((a) => idSet.has(a.id)));
+        const edit = (f: (t: Task) => Task) => (prev: Task[]) => mapTasks(prev, (t) => (idSet.has(t.id) ? f(t) : t));
+
+        switch (action.kind) {
+            case "done": {
+                const targets = action.done ? checkCompletion(ids) : ids;
+                if (!targets) return;
+                commit(`${targets.length} 件を${action.done ? "完了" : "未完に戻す"}`, (prev) => completeTasks(prev, targets, action.done));
+                break;
+            }
+            case "priority":
+                commit(`${ids.length} 件の優先度を変更`, edit((t) => ({ ...t, priority: action.priority })));
+                break;
+            case "setDue":
+                commit(action.due ? `${ids.length} 件の期限を ${action.due} に設定` : `${ids.length} 件の期限を削除`, edit((t) => ({
+                    ...t,
+                    due: action.due,
+                    // A time and reminders only make sense with a deadline.
+                    dueTime: action.due ? t.dueTime : undefined,
+                    reminders: action.due ? t.reminders : undefined,
+                })));
+                break;
+            case "shiftDue":
+                commit(`${ids.length} 件の期限を${action.days > 0 ? "+" : ""}${action.days}日ずらす`, edit((t) => (t.due ? { ...t, due: addDays(t.due, action.days) } : t)));
+                break;
+            case "remove":
+                topmost.forEach((id) => {
+                    const task = findById(tasks, id);
+                    const origin = locate(tasks, id);
+                    if (task && origin) trash.add({ task, parentId: origin.parentId, index: origin.index, deletedAt: new Date() });
+                });
+                commit(`${topmost.length} 件をゴミ箱へ移動`, (prev) => topmost.reduce((acc, id) => removeById(acc, id).rest, prev));
+                break;
+            case "move": {
+                const { parentId } = action;
+                commit(
+                    (prev) => `${topmost.length} 件を${parentId ? ` "${titleOf(prev, parentId)}" の下` : "最上位"}へ移動`,
+                    (prev) => topmost.reduce((acc, id) => {
+                        if (id === parentId || (parentId && isDescendant(acc, id, parentId))) return acc;
+                        const { removed, rest } = removeById(acc, id);
+                        if (!removed) return acc;
+                        return parentId ? insertChild(rest, parentId, removed) : [...rest, removed];
+                    }, prev)
+                );
+                break;
+            }
+        }
+    };
+
+    // --- Templates ---
+    // --- Smart views ---
+    const allViews = useMemo(() => [...builtInViews(settings.recentDays), ...savedViews.views], [settings.recentDays, savedViews.views]);
+    const viewCounts = useMemo(() => new Map(allViews.map((v) => [v.id, countViewMatches(tasks, v)])), [allViews, tasks]);
+    const viewState = { filterQuery, tagFilter, search: query, sortKey, sortOrder };
+
+    const applyView = (view: SmartView) => {
+        setFilterQuery(view.filterQuery);
+        setTagFilter(view.tagFilter);
+        setQuery(view.search);
+        if (view.sortKey && view.sortOrder) {
+            updateSettings({ sortKey: view.sortKey, sortOrder: view.sortOrder, ...(view.sortOptions && { sortOptions: view.sortOptions }) });
+        }
+    };
+    const saveCurrentView = () => {
+        const name = window.prompt("ビューの名前")?.trim();
+        if (!name) return;
+        savedViews.addView({ id: newId(), name, filterQuery, tagFilter, search: query, sortKey, sortOrder, sortOptions });
+    };
+
+    const saveAsTemplate = (id: string) => {
+        const task = findById(tasks, id);
+        if (!task) return;
+        const name = window.prompt("テンプレート名", task.text)?.trim();
+        if (!name) return;
+        addTemplate(taskToTemplate(task, name));
+    };
+    const applyTemplate = (templateId: string, parentId: string | null) => {
+        const template = templates.find((t) => t.id === templateId);
+        if (!template) return;
+        const task = instantiateTemplate(template);
+        if (parentId) {
+            commit(
+                (prev) => `テンプレート "${template.name}" を "${titleOf(prev, parentId)}" の下に追加`,
+                (prev) => mapTasks(insertChild(prev, parentId, task), (t) => (t.id === parentId && t.collapsed ? { ...t, collapsed: false } : t))
+            );
+        } else {
+            commit(`テンプレート "${template.name}" を追加`, (prev) => [...prev, task]);
+        }
+        setMode("structure");
+    };
+
+    const openNoteModal = (task: Task) => setNoteModalTaskId(task.id);
+    const closeNoteModal = () => setNoteModalTaskId(null);
+    const noteModalTask = noteModalTaskId ? findById(tasks, noteModalTaskId) : null;
+    const recurrenceTask = recurrenceTaskId ? findById(tasks, recurrenceTaskId) : null;
+    const sessionTask = sessionTaskId ? findById(tasks, sessionTaskId) : null;
+    const dependencyTask = dependencyTaskId ? findById(tasks, dependencyTaskId) : null;
+    const timerTask = timer.timer ? findById(tasks, timer.timer.taskId) : null;
 
     // --- Daily Report Logic ---
     const handleOpenReportModal = () => {
@@ -110,8 +428,9 @@ export default function App() {
 
         const completedTasks = allTasks.filter(t => t.done && t.completedAt && t.completedAt > twentyFourHoursAgo);
         const problemTasks = allTasks.filter(t => !t.done && t.due && (new Date(t.due) < now || new Date(t.due) < threeDaysFromNow));
+        const trackedTime = trackedBetween(withRunningSession(tasks, timer.timer, now), twentyFourHoursAgo, now);
 
-        setReportAnalysis({ completedTasks, problemTasks });
+        setReportAnalysis({ completedTasks, problemTasks, trackedTime });
         setGeneratedReport(null);
         setIsGenerating(false);
         setIsReportModalOpen(true);
@@ -134,6 +453,13 @@ export default function App() {
             prompt += "過去24時間で完了したタスクはありません。\n";
         }
 
+        prompt += "\n## ⏱ 作業時間（過去24時間）\n";
+        if (reportAnalysis.trackedTime.length > 0) {
+            reportAnalysis.trackedTime.forEach(({ task, ms }) => prompt += `- ${task.text}: ${formatDuration(ms)}\n`);
+        } else {
+            prompt += "記録された作業時間はありません。\n";
+        }
+
         prompt += "\n## ⚠️ 確認が必要なタスク\n";
         if (reportAnalysis.problemTasks.length > 0) {
             reportAnalysis.problemTasks.forEach(t => {
@@ -159,7 +485,7 @@ export default function App() {
 # ${dateString}の日報
 
 ## 今日の成果
-（完了タスクを基に、要約を生成、上司に報告するための日本語で。）
+（完了タスクと作業時間を基に、要約を生成、上司に報告するための日本語で。）
 
 ## 現在の課題と次のアクション
 （遅延タスクとユーザーの回答を基に、課題点を整理し、具体的な次のアクションを提示。上司に報告するための日本語で。）
@@ -220,40 +546,138 @@ export default function App() {
             </div>
 
             <div className="container">
+                {timer.timer && (
+                    <TimerBar
+                        timer={timer.timer}
+                        title={timerTask?.text ?? "（削除されたタスク）"}
+                        settings={settings.timer}
+                        onStop={timer.stop}
+                    />
+                )}
                 {mode === "input" ? (
-                    <InputPanel onCreate={create} />
+                    <InputPanel
+                        onCreate={create}
+                        onCreateMany={createMany}
+                        tagNames={tagList.map((t) => t.name)}
+                        templates={templates}
+                        parents={flattenWithDepth(tasks)}
+                        onUseTemplate={applyTemplate}
+                        onManageTemplates={() => setIsTemplateModalOpen(true)}
+                        estimateUnit={settings.estimateUnit}
+                    />
                 ) : (
                     <section className="panel">
                         <div className="toolbar">
-                            <div className="filters" role="tablist" aria-label="フィルタ">
-                                <button className={`tab ${filter === "all" ? "active" : ""}`} onClick={() => setFilter("all")}>すべて</button>
-                                <button className={`tab ${filter === "active" ? "active" : ""}`} onClick={() => setFilter("active")}>未完</button>
-                                <button className={`tab ${filter === "done" ? "active" : ""}`} onClick={() => setFilter("done")}>完了</button>
+                            <div className="filters" aria-label="フィルタ">
+                                {FILTER_PRESETS.map((preset) => (
+                                    <button
+                                        key={preset.label}
+                                        className={`tab ${filterQuery.trim() === preset.query ? "active" : ""}`}
+                                        onClick={() => setFilterQuery(preset.query)}
+                                        title={preset.query || "条件なし"}
+                                    >
+                                        {preset.label}
+                                    </button>
+                                ))}
+                            </div>
+                            <QueryInput
+                                value={filterQuery}
+                                onChange={setFilterQuery}
+                                errors={parsedFilter.errors}
+                                tagNames={tagList.map((t) => t.name)}
+                                parentTitles={parentTitles}
+                            />
+                            <div className="tag-filters" aria-label="タグで絞り込み">
+                                {tagList.map(({ name, count }) => (
+                                    <button
+                                        key={name}
+                                        className={`chip tag-chip ${tagFilter.includes(name) ? "active" : ""}`}
+                                        style={{ "--tag": tagColor(name, tagColors.colors) } as React.CSSProperties}
+                                        onClick={() => toggleTagFilter(name)}
+                                        aria-pressed={tagFilter.includes(name)}
+                                    >
+                                        {name} <span className="muted">{count}</span>
+                                    </button>
+                                ))}
+                                <button className="chip" onClick={() => setIsTagModalOpen(true)}>🏷 タグ管理</button>
                             </div>
                             <button className="btn" onClick={handleOpenReportModal}>日報を作成</button>
+                            <button className="btn ghost" onClick={() => setMarkdownMode("export")}>MD 書き出し</button>
+                            <button className="btn ghost" onClick={() => setMarkdownMode("import")}>MD 取り込み</button>
+                            <button className="btn ghost" onClick={() => setIsCalendarModalOpen(true)}>カレンダー</button>
                             <button className="btn ghost" onClick={() => setMode("input")}>＋ 追加する</button>
+                            <div className="history-buttons">
+                                <button className="btn ghost" onClick={undo} disabled={!undoLabel} title={undoLabel ? `元に戻す: ${undoLabel} (Ctrl+Z)` : "元に戻す操作はありません"}>
+                                    ↶ 元に戻す
+                                </button>
+                                <button className="btn ghost" onClick={redo} disabled={!redoLabel} title={redoLabel ? `やり直す: ${redoLabel} (Ctrl+Shift+Z)` : "やり直す操作はありません"}>
+                                    ↷ やり直す
+                                </button>
+                                {undoLabel && <span className="muted history-label">直前: {undoLabel}</span>}
+                            </div>
+                            <button className="btn ghost" onClick={() => setIsBackupModalOpen(true)}>バックアップ</button>
+                            <button className="btn ghost" onClick={() => setIsTrashModalOpen(true)}>🗑 ゴミ箱 ({trashItems.length})</button>
+                            <button className="btn ghost" onClick={() => setIsSettingsModalOpen(true)}>⚙ 設定</button>
+                            <button className="btn ghost" onClick={loadDemoData}>デモデータ</button>
+                        </div>
+
+                        <div className="toolbar view-bar" aria-label="ビュー">
+                            <span className="muted">ビュー：</span>
+                            {allViews.map((view) => (
+                                <span key={view.id} className={`chip view-chip ${isViewActive(view, viewState) ? "active" : ""}`}>
+                                    <button className="view-apply" onClick={() => applyView(view)} title={view.filterQuery || view.search || view.name}>
+                                        {view.name} <span className="count-badge">{viewCounts.get(view.id)}</span>
+                                    </button>
+                                    {!isBuiltInView(view) && (
+                                        <button
+                                            className="view-remove"
+                                            onClick={() => { if (window.confirm(`ビュー "${view.name}" を削除しますか？`)) savedViews.removeView(view.id); }}
+                                            aria-label={`ビュー ${view.name} を削除`}
+                                        >
+                                            ✕
+                                        </button>
+                                    )}
+                                </span>
+                            ))}
+                            <button className="chip" onClick={saveCurrentView} title="現在の絞り込み・タグ・検索・並び順を保存">＋ 現在の表示を保存</button>
                         </div>
 
                         <div className="toolbar">
                             <SortTags
                                 currentSortKey={sortKey}
                                 currentSortOrder={sortOrder}
-                                onSortChange={(key, order) => {
-                                    setSortKey(key);
-                                    setSortOrder(order);
-                                }}
+                                onSortChange={(key, order) => updateSettings({ sortKey: key, sortOrder: order })}
+                                options={sortOptions}
+                                onOptionsChange={(options) => updateSettings({ sortOptions: options })}
+                                scopeTargets={flattenWithDepth(tasks)}
                             />
                         </div>
 
                         <TaskTree
                             tasks={sortedTasks}
-                            filter={filter}
+                            filter={parsedFilter}
+                            tagFilter={tagFilter}
+                            tagColors={tagColors.colors}
+                            estimateUnit={settings.estimateUnit}
+                            query={query}
+                            onQueryChange={setQuery}
                             onToggleDone={toggleDone}
                             onRemove={removeTask}
                             onToggleCollapse={toggleCollapse}
                             onDropAsChild={dropAsChild}
                             onDropToRoot={dropToRoot}
+                            onDropBeside={dropBeside}
                             onOpenModal={openNoteModal}
+                            onOpenRecurrence={(task) => setRecurrenceTaskId(task.id)}
+                            runningTaskId={timer.timer?.taskId ?? null}
+                            onToggleTimer={timer.toggle}
+                            onOpenSessions={(task) => setSessionTaskId(task.id)}
+                            onOpenDependencies={(task) => setDependencyTaskId(task.id)}
+                            onUpdate={updateTask}
+                            onAddChild={addChild}
+                            onAddSibling={addSibling}
+                            onBulk={bulkAction}
+                            onSaveTemplate={saveAsTemplate}
                         />
                     </section>
                 )}
@@ -264,18 +688,104 @@ export default function App() {
                 <button className={`bn-item ${mode === "structure" ? "active" : ""}`} onClick={() => setMode("structure")}>タスク一覧</button>
             </nav>
 
+            {dependencyTask && (
+                <DependencyModal
+                    task={dependencyTask}
+                    tasks={tasks}
+                    onSave={(blockedBy) => updateTask(dependencyTask.id, { blockedBy })}
+                    onClose={() => setDependencyTaskId(null)}
+                />
+            )}
+
+            {sessionTask && (
+                <SessionLogModal
+                    task={sessionTask}
+                    descendantsMs={(buildTrackedMap([sessionTask]).get(sessionTask.id) ?? 0) - trackedMs(sessionTask)}
+                    onSave={(sessions) => updateTask(sessionTask.id, { sessions })}
+                    onClose={() => setSessionTaskId(null)}
+                />
+            )}
+
+            {recurrenceTask && (
+                <RecurrenceModal
+                    task={recurrenceTask}
+                    history={recurrenceTask.recurrence ? seriesHistory(tasks, recurrenceTask.recurrence.seriesId) : []}
+                    onSave={(recurrence) => updateTask(recurrenceTask.id, { recurrence })}
+                    onClose={() => setRecurrenceTaskId(null)}
+                />
+            )}
+
             {noteModalTask && (
-                <div className="modal-overlay" onClick={closeNoteModal}>
-                    <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
-                        <div className="modal-header">
-                            <h3>{noteModalTask.text} のメモ</h3>
-                            <button className="icon-btn danger" onClick={closeNoteModal}>✕</button>
-                        </div>
-                        <div className="modal-body">
-                            <p>{noteModalTask.note}</p>
-                        </div>
-                    </div>
-                </div>
+                <NoteModal
+                    task={noteModalTask}
+                    onSave={(note) => updateTask(noteModalTask.id, { note })}
+                    onClose={closeNoteModal}
+                />
+            )}
+
+            {isBackupModalOpen && (
+                <BackupModal tasks={tasks} onClose={() => setIsBackupModalOpen(false)} onImport={importTasks} />
+            )}
+
+            {markdownMode && (
+                <MarkdownModal
+                    mode={markdownMode}
+                    tasks={visibleTasks}
+                    onClose={() => setMarkdownMode(null)}
+                    onImport={(imported) => commit("Markdown を取り込み", (prev) => [...prev, ...imported])}
+                />
+            )}
+
+            {isCalendarModalOpen && (
+                <CalendarModal
+                    tasks={tasks}
+                    defaultDueTime={settings.defaultDueTime}
+                    onClose={() => setIsCalendarModalOpen(false)}
+                    onImport={(imported) => commit("カレンダーから取り込み", (prev) => [...prev, ...imported])}
+                />
+            )}
+
+            {isTrashModalOpen && (
+                <TrashModal
+                    items={trashItems}
+                    tasks={tasks}
+                    retentionDays={settings.trashRetentionDays}
+                    onChangeRetention={(days) => updateSettings({ trashRetentionDays: days })}
+                    onRestore={restoreFromTrash}
+                    onPurge={(item) => trash.remove(item.task.id)}
+                    onEmpty={trash.clear}
+                    onClose={() => setIsTrashModalOpen(false)}
+                />
+            )}
+
+            {isTemplateModalOpen && (
+                <TemplateModal
+                    templates={templates}
+                    onUpdate={updateTemplate}
+                    onRemove={removeTemplate}
+                    onClose={() => setIsTemplateModalOpen(false)}
+                />
+            )}
+
+            {isTagModalOpen && (
+                <TagManagerModal
+                    tags={tagList}
+                    colors={tagColors.colors}
+                    onRecolor={tagColors.setColor}
+                    onRename={renameTagEverywhere}
+                    onDelete={deleteTagEverywhere}
+                    onClose={() => setIsTagModalOpen(false)}
+                />
+            )}
+
+            {isSettingsModalOpen && (
+                <SettingsModal
+                    settings={settings}
+                    onChange={updateSettings}
+                    notificationPermission={reminders.permission}
+                    onRequestNotifications={reminders.requestPermission}
+                    onClose={() => setIsSettingsModalOpen(false)}
+                />
             )}
 
             {isReportModalOpen && reportAnalysis && (
@@ -287,55 +797,60 @@ export default function App() {
                     generatedReport={generatedReport}
                 />
             )}
+
+            <ReminderToasts
+                toasts={reminders.toasts}
+                onSnooze={reminders.snooze}
+                onDismiss={reminders.dismiss}
+                onOpen={() => setMode("structure")}
+            />
         </main>
     );
 }
 
-function mapTasks(arr: Task[], f: (t: Task) => Task): Task[] {
-    return arr.map((t) => ({ ...f(t), children: mapTasks(t.children, f) }));
-}
-function countTasks(arr: Task[], pred: (t: Task) => boolean = () => true): number {
-    let c = 0;
-    const walk = (xs: Task[]) => xs.forEach((t) => { if (pred(t)) c++; if (t.children.length) walk(t.children); });
-    walk(arr);
-    return c;
-}
-function removeById(arr: Task[], id: string): { removed: Task | null; rest: Task[] } {
-    const rest: Task[] = [];
-    let removed: Task | null = null;
-    for (const t of arr) {
-        if (t.id === id) { removed = { ...t, children: t.children.map(clone) }; continue; }
-        const sub = removeById(t.children, id);
-        if (sub.removed) { removed = sub.removed; rest.push({ ...t, children: sub.rest }); }
-        else rest.push(t);
-    }
-    return { removed, rest };
-}
-function insertChild(arr: Task[], parentId: string, child: Task): Task[] {
-    return arr.map((t) => (t.id === parentId ? { ...t, children: [...t.children, child] } : { ...t, children: insertChild(t.children, parentId, child) }));
-}
-function isDescendant(arr: Task[], ancestorId: string, maybeDescendantId: string): boolean {
-    const a = findById(arr, ancestorId); if (!a) return false; return !!findById(a.children, maybeDescendantId);
+function newTask(p: TaskDraft): Task {
+    const id = newId();
+    // The first occurrence's id names the series.
+    const recurrence = p.recurrence && { ...p.recurrence, seriesId: id };
+    return {
+        id,
+        text: p.text,
+        done: false,
+        children: [],
+        priority: p.priority,
+        start: p.start,
+        due: p.due,
+        dueTime: p.due ? p.dueTime : undefined,
+        reminders: p.due ? p.reminders : undefined,
+        estimate: p.estimate,
+        note: p.note,
+        tags: p.tags,
+        recurrence,
+        createdAt: new Date(),
+    };
 }
-function findById(arr: Task[], id: string): Task | null {
-    for (const t of arr) { if (t.id === id) return t; const f = findById(t.children, id); if (f) return f; }
-    return null;
+
+function titleOf(arr: Task[], id: string): string {
+    return findById(arr, id)?.text ?? "タスク";
 }
-function clone(t: Task): Task { return { ...t, children: t.children.map(clone) }; }
-
-function flattenTasks(tasks: Task[]): Task[] {
-    let flat: Task[] = [];
-    tasks.forEach(task => {
-        flat.push(task);
-        if (task.children.length > 0) {
-            flat = flat.concat(flattenTasks(task.children));
-        }
-    });
-    return flat;
+
+function describeEdit(title: string, patch: TaskPatch): string {
+    if (patch.text !== undefined) return `"${title}" を "${patch.text}" に名前変更`;
+    if ("priority" in patch) return `"${title}" の優先度を${patch.priority ? { low: "低", medium: "中", high: "高" }[patch.priority] : "なし"}に変更`;
+    if ("due" in patch) return patch.due ? `"${title}" の期限を ${patch.due}${patch.dueTime ? ` ${patch.dueTime}` : ""} に変更` : `"${title}" の期限を削除`;
+    if ("start" in patch) return patch.start ? `"${title}" の開始日を ${patch.start} に変更` : `"${title}" の開始日を削除`;
+    if ("estimate" in patch) return patch.estimate ? `"${title}" の見積を ${patch.estimate} に変更` : `"${title}" の見積を削除`;
+    if ("reminders" in patch) return patch.reminders ? `"${title}" のリマインドを ${patch.reminders.map(formatOffset).join("・")} に変更` : `"${title}" のリマインドを解除`;
+    if ("note" in patch) return `"${title}" のメモを編集`;
+    if ("tags" in patch) return patch.tags ? `"${title}" のタグを ${patch.tags.join(", ")} に変更` : `"${title}" のタグを削除`;
+    if ("sessions" in patch) return `"${title}" の作業記録を編集`;
+    if ("blockedBy" in patch) return patch.blockedBy ? `"${title}" の依存関係を変更` : `"${title}" の依存関係を解除`;
+    if ("recurrence" in patch) return patch.recurrence ? `"${title}" の繰り返しを${describeRecurrence(patch.recurrence.rule)}に設定` : `"${title}" の繰り返しを解除`;
+    return `"${title}" を編集`;
 }
 
 function seed(): Task[] {
-    const id = () => (typeof crypto !== "undefined" && "randomUUID" in crypto ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(16).slice(2)}`);
+    const id = newId;
     const now = new Date();
     let i = 30;
     const createdAt = () => new Date(now.getTime() - (i-- * 1000 * 3600 * 24));
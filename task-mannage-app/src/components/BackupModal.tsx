@@ -0,0 +1,124 @@
+// src/components/BackupModal.tsx
+import { useMemo, useState } from "react";
+import type { Task } from "../types";
+import { exportBackup, parseBackup } from "../utils/backup";
+import { flattenTasks } from "../utils/tree";
+
+export type ImportMode = "replace" | "merge";
+
+interface BackupModalProps {
+    tasks: Task[];
+    onClose: () => void;
+    // For "merge", the imported tree is placed under a new top-level node titled `label`.
+    onImport: (tasks: Task[], mode: ImportMode, label: string) => void;
+}
+
+export const BackupModal: React.FC<BackupModalProps> = ({ tasks, onClose, onImport }) => {
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [fileText, setFileText] = useState<string | null>(null);
+    const [mode, setMode] = useState<ImportMode>("merge");
+    const [label, setLabel] = useState(`インポート ${new Date().toISOString().slice(0, 10)}`);
+
+    // Re-parse when the mode changes: only a merge has to avoid ids already in the current tree.
+    const parsed = useMemo(() => {
+        if (fileText == null) return null;
+        try {
+            const taken = mode === "merge" ? new Set(flattenTasks(tasks).map((t) => t.id)) : new Set<string>();
+            return { result: parseBackup(fileText, taken), error: null };
+        } catch (error) {
+            return { result: null, error: error instanceof Error ? error.message : String(error) };
+        }
+    }, [fileText, mode, tasks]);
+
+    const handleFile: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        setFileName(file.name);
+        file.text().then(setFileText).catch((error) => {
+            console.error("Failed to read backup file:", error);
+            setFileText("");
+        });
+    };
+
+    const result = parsed?.result;
+    const importedCount = result ? flattenTasks(result.tasks).length : 0;
+
+    const handleImport = () => {
+        if (!result || result.tasks.length === 0) return;
+        if (mode === "replace" && !window.confirm("現在のタスクをすべて置き換えます。よろしいですか？")) return;
+        onImport(result.tasks, mode, label.trim() || "インポート");
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>バックアップ</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <h4>エクスポート</h4>
+                    <p className="muted">メモ・期限・完了日時を含むツリー全体を JSON で保存します。</p>
+                    <div className="form-actions">
+                        <button className="btn primary" onClick={() => exportBackup(tasks)}>JSON をダウンロード</button>
+                    </div>
+
+                    <h4>インポート</h4>
+                    <input className="input" type="file" accept="application/json,.json" onChange={handleFile} />
+
+                    {parsed?.error && <p className="error-text">{fileName}: {parsed.error}</p>}
+
+                    {result && (
+                        <>
+                            <p>
+                                {importedCount} 件のタスクを読み込めます
+                                {result.exportedAt && <span className="muted">（{new Date(result.exportedAt).toLocaleString()} に作成）</span>}
+                            </p>
+                            {result.regeneratedIds > 0 && (
+                                <p className="muted">重複していた ID {result.regeneratedIds} 件を新しく採番します。</p>
+                            )}
+                            {result.issues.length > 0 && (
+                                <>
+                                    <p className="error-text">{result.issues.length} 件の問題が見つかりました：</p>
+                                    <ul className="issue-list">
+                                        {result.issues.map((issue, i) => (
+                                            <li key={i}>
+                                                <strong>{issue.path}</strong> — {issue.message}
+                                                {issue.skipped && <span className="muted">（スキップ）</span>}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </>
+                            )}
+
+                            <div className="form-row">
+                                <label className="label">取り込み方法</label>
+                                <div className="segmented">
+                                    <button type="button" className={`seg-item ${mode === "merge" ? "active" : ""}`} onClick={() => setMode("merge")}>
+                                        新しい親の下に追加
+                                    </button>
+                                    <button type="button" className={`seg-item ${mode === "replace" ? "active" : ""}`} onClick={() => setMode("replace")}>
+                                        置き換え
+                                    </button>
+                                </div>
+                            </div>
+                            {mode === "merge" && (
+                                <div className="form-row">
+                                    <label className="label">親タスク名</label>
+                                    <input className="input" value={label} onChange={(e) => setLabel(e.target.value)} />
+                                </div>
+                            )}
+
+                            <div className="form-actions">
+                                <button className="btn primary" onClick={handleImport} disabled={result.tasks.length === 0}>
+                                    インポート
+                                </button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
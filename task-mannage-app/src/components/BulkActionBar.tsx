@@ -0,0 +1,72 @@
+// src/components/BulkActionBar.tsx
+import { useState } from "react";
+import type { Priority, Task } from "../types";
+
+export type BulkAction =
+    | { kind: "done"; done: boolean }
+    | { kind: "remove" }
+    | { kind: "priority"; priority?: Priority }
+    | { kind: "setDue"; due?: string }
+    | { kind: "shiftDue"; days: number }
+    | { kind: "move"; parentId: string | null };
+
+interface BulkActionBarProps {
+    count: number;
+    // Where the selection can be moved: every task except the selected ones and their descendants.
+    moveTargets: { task: Task; depth: number }[];
+    onAction: (action: BulkAction) => void;
+    onClear: () => void;
+}
+
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({ count, moveTargets, onAction, onClear }) => {
+    const [due, setDue] = useState("");
+    const [shift, setShift] = useState("1");
+    const [target, setTarget] = useState("");
+
+    const shiftDays = parseInt(shift, 10);
+
+    return (
+        <div className="bulk-bar glass" role="toolbar" aria-label="一括操作">
+            <strong>{count} 件選択中</strong>
+
+            <button className="btn ghost" onClick={() => onAction({ kind: "done", done: true })}>完了</button>
+            <button className="btn ghost" onClick={() => onAction({ kind: "done", done: false })}>未完</button>
+
+            <div className="segmented mini" aria-label="優先度">
+                {(["low", "medium", "high"] as Priority[]).map((p) => (
+                    <button key={p} type="button" className={`seg-item ${p}`} onClick={() => onAction({ kind: "priority", priority: p })}>
+                        {p === "low" ? "低" : p === "medium" ? "中" : "高"}
+                    </button>
+                ))}
+                <button type="button" className="seg-item" onClick={() => onAction({ kind: "priority", priority: undefined })} title="優先度なし">ー</button>
+            </div>
+
+            <span className="bulk-group">
+                <input className="input inline-input" type="date" value={due} onChange={(e) => setDue(e.target.value)} aria-label="期限" />
+                <button className="btn ghost" onClick={() => onAction({ kind: "setDue", due: due || undefined })}>
+                    {due ? "期限を設定" : "期限を削除"}
+                </button>
+            </span>
+
+            <span className="bulk-group">
+                <input className="input inline-input days-input" type="number" value={shift} onChange={(e) => setShift(e.target.value)} aria-label="ずらす日数" />
+                <button className="btn ghost" disabled={!shiftDays} onClick={() => onAction({ kind: "shiftDue", days: shiftDays })}>
+                    日 期限をずらす
+                </button>
+            </span>
+
+            <span className="bulk-group">
+                <select className="input inline-input" value={target} onChange={(e) => setTarget(e.target.value)} aria-label="移動先">
+                    <option value="">（最上位）</option>
+                    {moveTargets.map(({ task, depth }) => (
+                        <option key={task.id} value={task.id}>{"　".repeat(depth)}{task.text}</option>
+                    ))}
+                </select>
+                <button className="btn ghost" onClick={() => onAction({ kind: "move", parentId: target || null })}>の下へ移動</button>
+            </span>
+
+            <button className="btn ghost danger-text" onClick={() => onAction({ kind: "remove" })}>削除</button>
+            <button className="icon-btn" onClick={onClear} aria-label="選択解除" title="選択解除 (Esc)">✕</button>
+        </div>
+    );
+};
@@ -0,0 +1,101 @@
+// src/components/CalendarModal.tsx
+import { useMemo, useState } from "react";
+import type { Task } from "../types";
+import { downloadFile } from "../utils/backup";
+import { CalendarKind, parseICalendar, tasksToICalendar } from "../utils/ical";
+import { countTasks } from "../utils/tree";
+
+interface CalendarModalProps {
+    tasks: Task[];
+    // When a deadline without a time falls due, for exported alarms.
+    defaultDueTime: string;
+    onClose: () => void;
+    onImport: (tasks: Task[]) => void;
+}
+
+export const CalendarModal: React.FC<CalendarModalProps> = ({ tasks, defaultDueTime, onClose, onImport }) => {
+    const [kind, setKind] = useState<CalendarKind>("VTODO");
+    const [includeDone, setIncludeDone] = useState(false);
+    const [imported, setImported] = useState<Task[] | null>(null);
+
+    const exportCount = useMemo(
+        () => countTasks(tasks, (t) => !!t.due && (includeDone || !t.done)),
+        [tasks, includeDone]
+    );
+
+    const handleExport = () => {
+        const today = new Date().toISOString().slice(0, 10);
+        downloadFile(tasksToICalendar(tasks, kind, includeDone, defaultDueTime), `flow-mind-${today}.ics`, "text/calendar");
+    };
+
+    const handleFile: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+        const file = e.target.files?.[0];
+        if (!file) return;
+        file.text()
+            .then((text) => setImported(parseICalendar(text)))
+            .catch((err) => {
+                console.error("Failed to read calendar file:", err);
+                setImported([]);
+            });
+    };
+
+    const handleImport = () => {
+        if (!imported || imported.length === 0) return;
+        onImport(imported);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>カレンダー連携 (.ics)</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <h4>エクスポート</h4>
+                    <div className="form-row">
+                        <div className="segmented">
+                            <button type="button" className={`seg-item ${kind === "VTODO" ? "active" : ""}`} onClick={() => setKind("VTODO")}>
+                                ToDo (VTODO)
+                            </button>
+                            <button type="button" className={`seg-item ${kind === "VEVENT" ? "active" : ""}`} onClick={() => setKind("VEVENT")}>
+                                終日予定 (VEVENT)
+                            </button>
+                        </div>
+                        <label className="task-label">
+                            <input type="checkbox" checked={includeDone} onChange={(e) => setIncludeDone(e.target.checked)} />
+                            完了済みも含める
+                        </label>
+                    </div>
+                    <div className="form-actions">
+                        <span className="muted">期限付きタスク {exportCount} 件</span>
+                        <button className="btn primary" onClick={handleExport} disabled={exportCount === 0}>.ics をダウンロード</button>
+                    </div>
+
+                    <h4>インポート（VTODO）</h4>
+                    <input className="input" type="file" accept=".ics,text/calendar" onChange={handleFile} />
+                    {imported && (
+                        imported.length > 0 ? (
+                            <>
+                                <ul>
+                                    {imported.map((t) => (
+                                        <li key={t.id}>
+                                            {t.done ? "✅ " : ""}{t.text}
+                                            {t.due && <span className="muted">（期限 {t.due}）</span>}
+                                        </li>
+                                    ))}
+                                </ul>
+                                <div className="form-actions">
+                                    <button className="btn primary" onClick={handleImport}>{imported.length} 件を追加</button>
+                                </div>
+                            </>
+                        ) : (
+                            <p className="error-text">VTODO が見つかりませんでした。</p>
+                        )
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
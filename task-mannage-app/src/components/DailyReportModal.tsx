@@ -1,11 +1,13 @@
 import { useState } from "react";
 import type { Task } from "../types";
+import { formatDuration } from "../utils/timeTracking";
 
 
 // The structure of the analysis result passed from App.tsx
 export type ReportAnalysis = {
     completedTasks: Task[];
     problemTasks: Task[]; // Overdue or upcoming tasks
+    trackedTime: { task: Task; ms: number }[]; // Time tracked in the same window, longest first
 };
 
 interface DailyReportModalProps {
@@ -75,6 +77,13 @@ export const DailyReportModal: React.FC<DailyReportModalProps> = ({
                     <p className="muted">過去24時間以内に完了したタスクはありません。</p>
                 )}
 
+                <h4>⏱ 作業時間（過去24時間）</h4>
+                {analysis.trackedTime.length > 0 ? (
+                    <ul>{analysis.trackedTime.map(({ task, ms }) => <li key={task.id}>{task.text}：{formatDuration(ms)}</li>)}</ul>
+                ) : (
+                    <p className="muted">過去24時間に記録された作業時間はありません。</p>
+                )}
+
                 <h4>⚠️ 確認が必要なタスク</h4>
                 {analysis.problemTasks.length > 0 ? (
                     analysis.problemTasks.map(task => (
@@ -0,0 +1,109 @@
+// src/components/DependencyModal.tsx
+import { useMemo, useState } from "react";
+import type { Task } from "../types";
+import { dependencyError, dependentsOf, taskLocation } from "../utils/dependencies";
+import { matchesSearch, parseSearchQuery } from "../utils/search";
+import { findById, flattenTasks, mapTasks } from "../utils/tree";
+
+interface DependencyModalProps {
+    task: Task;
+    tasks: Task[];
+    onSave: (blockedBy: string[] | undefined) => void;
+    onClose: () => void;
+}
+
+const MAX_CANDIDATES = 30;
+
+export const DependencyModal: React.FC<DependencyModalProps> = ({ task, tasks, onSave, onClose }) => {
+    const [ids, setIds] = useState<string[]>(task.blockedBy ?? []);
+    const [search, setSearch] = useState("");
+
+    // Candidates are checked against the links as edited so far, not the saved ones.
+    const draft = useMemo(() => mapTasks(tasks, (t) => (t.id === task.id ? { ...t, blockedBy: ids } : t)), [tasks, task.id, ids]);
+    const blockers = ids.map((id) => findById(tasks, id)).filter((t): t is Task => !!t);
+    const dependents = dependentsOf(tasks, task.id);
+    const candidates = useMemo(() => {
+        const words = parseSearchQuery(search);
+        return flattenTasks(tasks)
+            .filter((t) => t.id !== task.id && !ids.includes(t.id) && matchesSearch(t, words))
+            .slice(0, MAX_CANDIDATES)
+            .map((t) => ({ task: t, error: dependencyError(draft, task.id, t.id) }));
+    }, [tasks, draft, task.id, ids, search]);
+
+    const save = () => {
+        onSave(ids.length ? ids : undefined);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>{task.text} の依存関係</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <h4>先に完了が必要なタスク</h4>
+                    {blockers.length === 0 && <p className="muted">まだありません。下の一覧から追加できます。</p>}
+                    <ul className="dependency-list">
+                        {blockers.map((t) => (
+                            <li key={t.id}>
+                                <span className={t.done ? "done" : ""}>{t.done ? "✓" : "○"} {t.text}</span>
+                                <span className="muted">{taskLocation(tasks, t.id)}</span>
+                                <button
+                                    className="icon-btn danger"
+                                    onClick={() => setIds((prev) => prev.filter((id) => id !== t.id))}
+                                    aria-label="依存を解除"
+                                >
+                                    ✕
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <input
+                        className="input"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        placeholder="タスクを検索して追加…"
+                        aria-label="追加するタスクを検索"
+                    />
+                    <ul className="dependency-list candidates">
+                        {candidates.map(({ task: t, error }) => (
+                            <li key={t.id}>
+                                <button
+                                    className="dependency-candidate"
+                                    onClick={() => setIds((prev) => [...prev, t.id])}
+                                    disabled={!!error}
+                                    title={error ?? "先に完了が必要なタスクとして追加"}
+                                >
+                                    <span className={t.done ? "done" : ""}>{t.done ? "✓" : "○"} {t.text}</span>
+                                    <span className="muted">{error ?? taskLocation(tasks, t.id)}</span>
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+
+                    <div className="form-actions">
+                        <button className="btn primary" onClick={save}>保存</button>
+                        <button className="btn ghost" onClick={onClose}>キャンセル</button>
+                    </div>
+
+                    {dependents.length > 0 && (
+                        <>
+                            <h4>このタスクの完了を待っているタスク（{dependents.length}）</h4>
+                            <ul className="dependency-list">
+                                {dependents.map((t) => (
+                                    <li key={t.id}>
+                                        <span className={t.done ? "done" : ""}>{t.done ? "✓" : "○"} {t.text}</span>
+                                        <span className="muted">{taskLocation(tasks, t.id)}</span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
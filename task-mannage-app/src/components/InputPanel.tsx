@@ -1,28 +1,87 @@
 // src/components/InputPanel.tsx
-import { useState } from "react";
-import type { Priority } from "../types";
-
-type CreatePayload = {
-    text: string;
-    priority?: Priority;
-    due?: string;
-    note?: string;
+import { useMemo, useState } from "react";
+import type { EstimateUnit, Priority, RecurrenceRule, Task, TaskDraft, Template } from "../types";
+import { today } from "../utils/date";
+import { findTaskByName, parseQuickEntry } from "../utils/quickEntry";
+import { parseTagInput } from "../utils/tags";
+import { formatOffset, REMINDER_PRESETS } from "../utils/reminders";
+import { OutlinePasteModal } from "./OutlinePasteModal";
+import RecurrenceFields from "./RecurrenceFields";
+
+type Props = {
+    onCreate: (p: TaskDraft, parentId?: string | null) => void;
+    onCreateMany: (tasks: Task[], parentId: string | null) => void;
+    templates: Template[];
+    // Tasks a template (or a `#name` quick-entry token) can target, in outline order.
+    parents: { task: Task; depth: number }[];
+    onUseTemplate: (templateId: string, parentId: string | null) => void;
+    onManageTemplates: () => void;
+    // Existing tags, offered as suggestions.
+    tagNames: string[];
+    estimateUnit: EstimateUnit;
 };
 
-export default function InputPanel({ onCreate }: { onCreate: (p: CreatePayload) => void }) {
+export default function InputPanel({ onCreate, onCreateMany, templates, parents, onUseTemplate, onManageTemplates, tagNames, estimateUnit }: Props) {
     const [text, setText] = useState("");
     const [priority, setPriority] = useState<Priority>("medium");
+    const [start, setStart] = useState("");
     const [due, setDue] = useState<string>("");
+    const [dueTime, setDueTime] = useState("");
+    const [reminders, setReminders] = useState<number[]>([]);
+    const [estimate, setEstimate] = useState("");
     const [note, setNote] = useState("");
+    const [tags, setTags] = useState("");
+    const [repeat, setRepeat] = useState<RecurrenceRule | null>(null);
+    const [countInTitle, setCountInTitle] = useState(false);
+    const [templateParent, setTemplateParent] = useState("");
+    // Text waiting in the bulk-add preview; null while it is closed.
+    const [outline, setOutline] = useState<string | null>(null);
+
+    // Tokens typed into the title override the form fields below.
+    const parsed = useMemo(() => parseQuickEntry(text), [text]);
+    const parent = useMemo(
+        () => (parsed.parentName ? findTaskByName(parents.map((p) => p.task), parsed.parentName) : null),
+        [parsed.parentName, parents]
+    );
+
+    // A single-line input would flatten pasted lines, so multi-line pastes open the bulk-add preview instead.
+    const handlePaste: React.ClipboardEventHandler<HTMLInputElement> = (e) => {
+        const pasted = e.clipboardData.getData("text/plain");
+        if (!/\r?\n./.test(pasted.trim())) return;
+        e.preventDefault();
+        setOutline(pasted);
+    };
 
     const submit: React.FormEventHandler<HTMLFormElement> = (e) => {
         e.preventDefault();
-        const v = text.trim();
+        const v = parsed.text.trim();
         if (!v) return;
-        onCreate({ text: v, priority, due: due || undefined, note: note.trim() || undefined });
+        const memo = [parsed.note, note.trim()].filter(Boolean).join("\n");
+        onCreate(
+            {
+                text: v,
+                priority: parsed.priority ?? priority,
+                start: start || undefined,
+                due: parsed.due ?? (due || undefined),
+                dueTime: dueTime || undefined,
+                reminders: reminders.length ? reminders : undefined,
+                estimate: Number(estimate) > 0 ? Number(estimate) : undefined,
+                note: memo || undefined,
+                tags: parseTagInput(tags),
+                recurrence: repeat ? { rule: repeat, countInTitle: countInTitle || undefined } : undefined,
+            },
+            parent?.id ?? null
+        );
         setText("");
+        setStart("");
         setDue("");
+        setDueTime("");
+        setReminders([]);
+        setEstimate("");
         setNote("");
+        setTags("");
+        setRepeat(null);
+        setCountInTitle(false);
         setPriority("medium");
     };
 
@@ -30,7 +89,7 @@ export default function InputPanel({ onCreate }: { onCreate: (p: CreatePayload)
         <section className="panel">
             <div className="panel-head">
                 <h2>タスクを入力</h2>
-                <p className="muted">シンプルに入力→必要なら優先度・期限・メモを追加</p>
+                <p className="muted">シンプルに入力→必要なら優先度・期限・メモを追加。本文中の !高 @明日 @金曜 @3日後 #親タスク // メモ も使えます</p>
             </div>
 
             <form onSubmit={submit} className="glass form">
@@ -38,11 +97,27 @@ export default function InputPanel({ onCreate }: { onCreate: (p: CreatePayload)
                     <label className="label">タスク</label>
                     <input
                         className="input"
-                        placeholder="例：論文Bの要約を仕上げる"
+                        placeholder="例：論文Bの要約を仕上げる !高 @金曜 #卒論 // 3章まで"
                         value={text}
                         onChange={(e) => setText(e.target.value)}
+                        onPaste={handlePaste}
                         aria-label="タスク本文"
                     />
+                    {parsed.tokens.length > 0 && (
+                        <div className="quick-preview" aria-live="polite">
+                            <span className="chip preview-title">{parsed.text || "（タスク名なし）"}</span>
+                            {parsed.priority && (
+                                <span className={`chip ${parsed.priority}`}>優先度: {prioLabel(parsed.priority)}</span>
+                            )}
+                            {parsed.due && <span className="chip">期限: {fmtDue(parsed.due)}</span>}
+                            {parsed.parentName && (
+                                parent
+                                    ? <span className="chip">追加先: {parent.text}</span>
+                                    : <span className="chip warn">「{parsed.parentName}」が見つかりません（最上位に追加）</span>
+                            )}
+                            {parsed.note && <span className="chip">メモ: {parsed.note}</span>}
+                        </div>
+                    )}
                 </div>
 
                 <div className="form-grid">
@@ -64,13 +139,91 @@ export default function InputPanel({ onCreate }: { onCreate: (p: CreatePayload)
 
                     <div className="form-row">
                         <label className="label">期限</label>
+                        <div className="due-inputs">
+                            <input
+                                className="input"
+                                type="date"
+                                value={due}
+                                onChange={(e) => setDue(e.target.value)}
+                            />
+                            <input
+                                className="input"
+                                type="time"
+                                value={dueTime}
+                                onChange={(e) => setDueTime(e.target.value)}
+                                aria-label="期限の時刻（任意）"
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="form-grid">
+                    <div className="form-row">
+                        <label className="label">開始日</label>
                         <input
                             className="input"
                             type="date"
-                            value={due}
-                            onChange={(e) => setDue(e.target.value)}
+                            value={start}
+                            onChange={(e) => setStart(e.target.value)}
                         />
                     </div>
+
+                    <div className="form-row">
+                        <label className="label">見積（{estimateUnit === "hours" ? "時間" : "ポイント"}）</label>
+                        <input
+                            className="input"
+                            type="number"
+                            min={0}
+                            step={estimateUnit === "hours" ? 0.5 : 1}
+                            placeholder={estimateUnit === "hours" ? "例：2.5" : "例：3"}
+                            value={estimate}
+                            onChange={(e) => setEstimate(e.target.value)}
+                        />
+                    </div>
+                </div>
+
+                {(parsed.due || due) && (
+                    <div className="form-row">
+                        <label className="label">リマインド</label>
+                        <div className="segmented">
+                            {REMINDER_PRESETS.map((m) => (
+                                <button
+                                    key={m}
+                                    type="button"
+                                    className={`seg-item ${reminders.includes(m) ? "active" : ""}`}
+                                    onClick={() => setReminders((prev) => (prev.includes(m) ? prev.filter((v) => v !== m) : [...prev, m].sort((a, b) => b - a)))}
+                                >
+                                    {formatOffset(m)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                )}
+
+                <div className="form-row">
+                    <label className="label">タグ</label>
+                    <input
+                        className="input"
+                        placeholder="例：研究, 英語（カンマまたはスペース区切り）"
+                        value={tags}
+                        onChange={(e) => setTags(e.target.value)}
+                        list="tag-suggestions"
+                        aria-label="タグ"
+                    />
+                    <datalist id="tag-suggestions">
+                        {tagNames.map((name) => <option key={name} value={name} />)}
+                    </datalist>
+                </div>
+
+                <div className="form-row">
+                    <label className="label">繰り返し</label>
+                    <RecurrenceFields rule={repeat} onChange={setRepeat} baseDate={parsed.due ?? (due || today())} />
+                    {repeat && (
+                        <label className="settings-row">
+                            <input type="checkbox" checked={countInTitle} onChange={(e) => setCountInTitle(e.target.checked)} />
+                            タイトルの番号を1つずつ増やす（例：第3回 → 第4回）
+                        </label>
+                    )}
                 </div>
 
                 <div className="form-row">
@@ -91,24 +244,60 @@ export default function InputPanel({ onCreate }: { onCreate: (p: CreatePayload)
                         type="button"
                         onClick={() => {
                             setText("");
+                            setStart("");
                             setDue("");
+                            setDueTime("");
+                            setReminders([]);
+                            setEstimate("");
                             setNote("");
+                            setTags("");
+                            setRepeat(null);
+                            setCountInTitle(false);
                             setPriority("medium");
                         }}
                     >
                         クリア
                     </button>
+                    <button className="btn ghost" type="button" onClick={() => setOutline("")} title="複数行のテキストを貼り付けると階層ごと追加できます">
+                        まとめて追加
+                    </button>
                 </div>
             </form>
 
             <div className="quick-templates">
-                <span className="muted">クイック追加：</span>
-                {["Daily Review", "買い物リスト作成", "議事録まとめ"].map((t) => (
-                    <button key={t} className="chip action" onClick={() => onCreate({ text: t })}>
-                        {t}
+                <span className="muted">テンプレート：</span>
+                {templates.map((t) => (
+                    <button key={t.id} className="chip action" onClick={() => onUseTemplate(t.id, templateParent || null)}>
+                        {t.name}
                     </button>
                 ))}
+                <select
+                    className="input inline-input template-target"
+                    value={templateParent}
+                    onChange={(e) => setTemplateParent(e.target.value)}
+                    aria-label="テンプレートの追加先"
+                >
+                    <option value="">追加先：最上位</option>
+                    {parents.map(({ task, depth }) => (
+                        <option key={task.id} value={task.id}>{"　".repeat(depth)}{task.text}</option>
+                    ))}
+                </select>
+                <button className="chip" onClick={onManageTemplates}>管理</button>
             </div>
+
+            {outline !== null && (
+                <OutlinePasteModal initialText={outline} parents={parents} onCreate={onCreateMany} onClose={() => setOutline(null)} />
+            )}
         </section>
     );
 }
+
+function prioLabel(p: Priority) {
+    return p === "high" ? "高" : p === "medium" ? "中" : "低";
+}
+
+function fmtDue(iso: string) {
+    const [y, m, d] = iso.split("-").map(Number);
+    const date = new Date(y, m - 1, d);
+    return `${y}/${m}/${d}（${"日月火水木金土"[date.getDay()]}）`;
+}
@@ -0,0 +1,79 @@
+// src/components/MarkdownModal.tsx
+import { useMemo, useState } from "react";
+import type { Task } from "../types";
+import { downloadFile } from "../utils/backup";
+import { markdownToTasks, tasksToMarkdown } from "../utils/markdown";
+import { countTasks } from "../utils/tree";
+
+interface MarkdownModalProps {
+    mode: "import" | "export";
+    // For export: the tree as currently shown (filter and sort already applied).
+    tasks: Task[];
+    onClose: () => void;
+    onImport: (tasks: Task[]) => void;
+}
+
+export const MarkdownModal: React.FC<MarkdownModalProps> = ({ mode, tasks, onClose, onImport }) => {
+    const exported = useMemo(() => (mode === "export" ? tasksToMarkdown(tasks) : ""), [mode, tasks]);
+    const [source, setSource] = useState("");
+    const preview = useMemo(() => markdownToTasks(source), [source]);
+
+    const handleCopy = () => {
+        navigator.clipboard.writeText(exported).catch((err) => {
+            console.error("Failed to copy text: ", err);
+        });
+    };
+
+    const handleDownload = () => {
+        const today = new Date().toISOString().slice(0, 10);
+        downloadFile(exported, `tasks-${today}.md`, "text/markdown");
+    };
+
+    const handleFile: React.ChangeEventHandler<HTMLInputElement> = (e) => {
+        const file = e.target.files?.[0];
+        if (file) file.text().then(setSource).catch((err) => console.error("Failed to read file:", err));
+    };
+
+    const handleImport = () => {
+        if (preview.length === 0) return;
+        onImport(preview);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>{mode === "export" ? "Markdown 書き出し" : "Markdown 取り込み"}</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                {mode === "export" ? (
+                    <div className="modal-body">
+                        <p className="muted">現在のフィルタと並び順でチェックリストに変換しています。</p>
+                        <textarea className="input textarea" rows={15} value={exported} readOnly />
+                        <div className="form-actions" style={{ marginTop: '20px' }}>
+                            <button className="btn ghost" onClick={handleCopy}>コピー</button>
+                            <button className="btn ghost" onClick={handleDownload}>ダウンロード (.md)</button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="modal-body">
+                        <p className="muted">`- [ ] 実装 !高 @2025-09-30` の形式で、インデントが親子関係になります。</p>
+                        <textarea
+                            className="input textarea"
+                            rows={12}
+                            placeholder={"- [ ] 実装\n  - [x] 環境構築"}
+                            value={source}
+                            onChange={(e) => setSource(e.target.value)}
+                        />
+                        <input className="input" type="file" accept=".md,.markdown,.txt,text/markdown,text/plain" onChange={handleFile} />
+                        <div className="form-actions" style={{ marginTop: '20px' }}>
+                            <span className="muted">{countTasks(preview)} 件を追加します</span>
+                            <button className="btn primary" onClick={handleImport} disabled={preview.length === 0}>取り込む</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,63 @@
+// src/components/NoteModal.tsx
+import { useState } from "react";
+import type { Task } from "../types";
+
+interface NoteModalProps {
+    task: Task;
+    onSave: (note: string | undefined) => void;
+    onClose: () => void;
+}
+
+export const NoteModal: React.FC<NoteModalProps> = ({ task, onSave, onClose }) => {
+    // A task without a note opens straight into the editor.
+    const [draft, setDraft] = useState<string | null>(task.note ? null : "");
+
+    const save = () => {
+        if (draft === null) return;
+        const note = draft.trim() ? draft : undefined;
+        if (note !== task.note) onSave(note);
+        setDraft(null);
+        if (!note) onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>{task.text} のメモ</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    {draft === null ? (
+                        <>
+                            <p>{task.note}</p>
+                            <div className="form-actions" style={{ marginTop: '20px' }}>
+                                <button className="btn ghost" onClick={() => setDraft(task.note ?? "")}>編集</button>
+                            </div>
+                        </>
+                    ) : (
+                        <>
+                            <textarea
+                                className="input textarea"
+                                rows={8}
+                                autoFocus
+                                placeholder="補足や次の一手を書いておくと便利"
+                                value={draft}
+                                onChange={(e) => setDraft(e.target.value)}
+                                onKeyDown={(e) => {
+                                    // Ctrl/Cmd+Enter saves; Escape leaves the editor without closing the modal.
+                                    if (e.key === "Enter" && (e.ctrlKey || e.metaKey)) { e.preventDefault(); save(); }
+                                    else if (e.key === "Escape") { e.preventDefault(); task.note ? setDraft(null) : onClose(); }
+                                }}
+                            />
+                            <div className="form-actions" style={{ marginTop: '20px' }}>
+                                <button className="btn primary" onClick={save}>保存</button>
+                                <button className="btn ghost" onClick={() => (task.note ? setDraft(null) : onClose())}>キャンセル</button>
+                            </div>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,78 @@
+// src/components/OutlinePasteModal.tsx
+import { useMemo, useState } from "react";
+import type { Task } from "../types";
+import { outlineToTasks } from "../utils/quickEntry";
+import { countTasks } from "../utils/tree";
+
+interface OutlinePasteModalProps {
+    initialText: string;
+    // Possible destinations, in outline order.
+    parents: { task: Task; depth: number }[];
+    onCreate: (tasks: Task[], parentId: string | null) => void;
+    onClose: () => void;
+}
+
+export const OutlinePasteModal: React.FC<OutlinePasteModalProps> = ({ initialText, parents, onCreate, onClose }) => {
+    const [source, setSource] = useState(initialText);
+    const [parentId, setParentId] = useState("");
+    const preview = useMemo(() => outlineToTasks(source), [source]);
+
+    const handleCreate = () => {
+        if (preview.length === 0) return;
+        onCreate(preview, parentId || null);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>まとめて追加</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <p className="muted">1 行が 1 タスク、インデント（スペース・タブ）が親子関係になります。行頭の「-」「*」「・」「1.」は無視され、!高 @明日 // メモ も使えます。</p>
+                    <textarea
+                        className="input textarea"
+                        rows={8}
+                        placeholder={"卒論\n  調査 !高\n    論文A @金曜\n  実装"}
+                        value={source}
+                        onChange={(e) => setSource(e.target.value)}
+                        autoFocus
+                    />
+                    <div className="outline-preview">
+                        {preview.length === 0
+                            ? <p className="muted">追加するタスクがありません。</p>
+                            : <OutlinePreview tasks={preview} />}
+                    </div>
+                    <div className="form-actions" style={{ marginTop: '20px' }}>
+                        <select className="input inline-input" value={parentId} onChange={(e) => setParentId(e.target.value)} aria-label="追加先">
+                            <option value="">追加先：最上位</option>
+                            {parents.map(({ task, depth }) => (
+                                <option key={task.id} value={task.id}>{"　".repeat(depth)}{task.text}</option>
+                            ))}
+                        </select>
+                        <span className="muted">{countTasks(preview)} 件を追加します</span>
+                        <button className="btn primary" onClick={handleCreate} disabled={preview.length === 0}>追加する</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+function OutlinePreview({ tasks }: { tasks: Task[] }) {
+    return (
+        <ul>
+            {tasks.map((t) => (
+                <li key={t.id}>
+                    <span className={t.done ? "done-text" : undefined}>{t.text}</span>
+                    {t.priority && <span className={`pill ${t.priority}`}>{t.priority === "high" ? "高" : t.priority === "medium" ? "中" : "低"}</span>}
+                    {t.due && <span className="pill due">{t.due}</span>}
+                    {t.note && <span className="muted"> — {t.note}</span>}
+                    {t.children.length > 0 && <OutlinePreview tasks={t.children} />}
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -0,0 +1,100 @@
+// src/components/QueryInput.tsx
+import { useMemo, useRef, useState } from "react";
+import type { QueryError } from "../utils/query";
+import { suggestQuery } from "../utils/query";
+
+interface QueryInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    errors: QueryError[];
+    // Values offered after "tag:" and "under:".
+    tagNames: string[];
+    parentTitles: string[];
+}
+
+export const QueryInput: React.FC<QueryInputProps> = ({ value, onChange, errors, tagNames, parentTitles }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const [caret, setCaret] = useState(0);
+    const [open, setOpen] = useState(false);
+    const [active, setActive] = useState(0);
+
+    const suggestion = useMemo(
+        () => suggestQuery(value, caret, { tags: tagNames, parents: parentTitles }),
+        [value, caret, tagNames, parentTitles]
+    );
+    const items = open ? suggestion.items : [];
+
+    const syncCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+    const accept = (index: number) => {
+        const item = items[index];
+        if (!item) return;
+        const next = value.slice(0, suggestion.from) + item.replacement + value.slice(suggestion.to);
+        const at = suggestion.from + item.replacement.length;
+        onChange(next);
+        setCaret(at);
+        setActive(0);
+        // Keep the list open after a key ("due:") so its values come up next.
+        setOpen(item.replacement.endsWith(":"));
+        requestAnimationFrame(() => inputRef.current?.setSelectionRange(at, at));
+    };
+
+    const onKeyDown: React.KeyboardEventHandler<HTMLInputElement> = (e) => {
+        if (e.nativeEvent.isComposing) return;
+        if (items.length > 0) {
+            if (e.key === "ArrowDown") { e.preventDefault(); setActive((active + 1) % items.length); return; }
+            if (e.key === "ArrowUp") { e.preventDefault(); setActive((active - 1 + items.length) % items.length); return; }
+            if (e.key === "Tab" || e.key === "Enter") { e.preventDefault(); accept(active); return; }
+        }
+        if (e.key === "Escape") {
+            if (items.length > 0) setOpen(false);
+            else onChange("");
+        }
+    };
+
+    return (
+        <div className="query-input">
+            <input
+                ref={inputRef}
+                className={`input ${errors.length ? "invalid" : ""}`}
+                value={value}
+                placeholder='絞り込み（例: priority:high due:<7d -done under:"卒論"）'
+                onChange={(e) => { onChange(e.target.value); setCaret(e.target.selectionStart ?? e.target.value.length); setOpen(true); setActive(0); }}
+                onKeyDown={onKeyDown}
+                onKeyUp={(e) => { if (e.key === "ArrowLeft" || e.key === "ArrowRight" || e.key === "Home" || e.key === "End") syncCaret(); }}
+                onClick={syncCaret}
+                onFocus={() => { syncCaret(); setOpen(true); }}
+                onBlur={() => setOpen(false)}
+                aria-label="絞り込み条件"
+                aria-invalid={errors.length > 0}
+                aria-autocomplete="list"
+                spellCheck={false}
+            />
+            {items.length > 0 && (
+                <ul className="query-suggestions glass" role="listbox">
+                    {items.map((item, i) => (
+                        <li
+                            key={item.replacement}
+                            role="option"
+                            aria-selected={i === active}
+                            className={i === active ? "active" : ""}
+                            onMouseDown={(e) => { e.preventDefault(); accept(i); }}
+                        >
+                            <code>{item.label}</code>
+                            {item.hint && <span className="muted">{item.hint}</span>}
+                        </li>
+                    ))}
+                </ul>
+            )}
+            {errors.length > 0 && (
+                <ul className="query-errors">
+                    {errors.map((err) => (
+                        <li key={err.start}>
+                            <code>{value.slice(err.start, err.end)}</code> {err.message}
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,105 @@
+// src/components/RecurrenceFields.tsx
+import type { RecurrenceRule } from "../types";
+import { WEEKDAY_LABELS, defaultRule } from "../utils/recurrence";
+
+type Props = {
+    rule: RecurrenceRule | null; // null = does not repeat
+    onChange: (rule: RecurrenceRule | null) => void;
+    // Date the defaults are taken from when switching kinds (weekly on its weekday, monthly on its date).
+    baseDate: string;
+};
+
+const KIND_LABELS: Record<RecurrenceRule["kind"], string> = {
+    daily: "毎日",
+    weekdays: "平日（月〜金）",
+    weekly: "毎週",
+    monthlyDate: "毎月（日付）",
+    monthlyNth: "毎月（第N曜日）",
+    afterDone: "完了してから",
+};
+
+export default function RecurrenceFields({ rule, onChange, baseDate }: Props) {
+    const setKind = (kind: string) => onChange(kind ? defaultRule(kind as RecurrenceRule["kind"], baseDate) : null);
+    const num = (value: string, min: number, max: number) => Math.min(max, Math.max(min, parseInt(value, 10) || min));
+
+    return (
+        <div className="recurrence-fields">
+            <select
+                className="input inline-input"
+                value={rule?.kind ?? ""}
+                onChange={(e) => setKind(e.target.value)}
+                aria-label="繰り返し"
+            >
+                <option value="">繰り返さない</option>
+                {Object.entries(KIND_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+            </select>
+
+            {rule?.kind === "weekly" && (
+                <div className="segmented weekday-picker">
+                    {WEEKDAY_LABELS.map((label, day) => (
+                        <button
+                            key={day}
+                            type="button"
+                            className={`seg-item ${rule.days.includes(day) ? "active" : ""}`}
+                            onClick={() => {
+                                const days = rule.days.includes(day) ? rule.days.filter((d) => d !== day) : [...rule.days, day];
+                                if (days.length > 0) onChange({ ...rule, days });
+                            }}
+                        >
+                            {label}
+                        </button>
+                    ))}
+                </div>
+            )}
+
+            {rule?.kind === "monthlyDate" && (
+                <label className="recurrence-inline">
+                    <input
+                        className="input inline-input days-input"
+                        type="number"
+                        min={1}
+                        max={31}
+                        value={rule.day}
+                        onChange={(e) => onChange({ ...rule, day: num(e.target.value, 1, 31) })}
+                    />
+                    日（31 で月末）
+                </label>
+            )}
+
+            {rule?.kind === "monthlyNth" && (
+                <span className="recurrence-inline">
+                    <select
+                        className="input inline-input"
+                        value={rule.nth}
+                        onChange={(e) => onChange({ ...rule, nth: Number(e.target.value) })}
+                        aria-label="第何週"
+                    >
+                        {[1, 2, 3, 4].map((n) => <option key={n} value={n}>第{n}</option>)}
+                        <option value={-1}>最終</option>
+                    </select>
+                    <select
+                        className="input inline-input"
+                        value={rule.weekday}
+                        onChange={(e) => onChange({ ...rule, weekday: Number(e.target.value) })}
+                        aria-label="曜日"
+                    >
+                        {WEEKDAY_LABELS.map((label, day) => <option key={day} value={day}>{label}曜</option>)}
+                    </select>
+                </span>
+            )}
+
+            {rule?.kind === "afterDone" && (
+                <label className="recurrence-inline">
+                    <input
+                        className="input inline-input days-input"
+                        type="number"
+                        min={1}
+                        value={rule.days}
+                        onChange={(e) => onChange({ ...rule, days: num(e.target.value, 1, 3650) })}
+                    />
+                    日後
+                </label>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,71 @@
+// src/components/RecurrenceModal.tsx
+import { useState } from "react";
+import type { Recurrence, RecurrenceRule, Task } from "../types";
+import { today } from "../utils/date";
+import { describeRecurrence, nextDue } from "../utils/recurrence";
+import RecurrenceFields from "./RecurrenceFields";
+
+interface RecurrenceModalProps {
+    task: Task;
+    // Occurrences of the task's series still in the tree, oldest first.
+    history: Task[];
+    onSave: (recurrence: Recurrence | undefined) => void;
+    onClose: () => void;
+}
+
+export const RecurrenceModal: React.FC<RecurrenceModalProps> = ({ task, history, onSave, onClose }) => {
+    const [rule, setRule] = useState<RecurrenceRule | null>(task.recurrence?.rule ?? null);
+    const [countInTitle, setCountInTitle] = useState(task.recurrence?.countInTitle ?? false);
+
+    const save = () => {
+        // Editing keeps the series; a task that did not repeat starts a new one named after itself.
+        onSave(rule ? { rule, seriesId: task.recurrence?.seriesId ?? task.id, countInTitle: countInTitle || undefined } : undefined);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>{task.text} の繰り返し</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <RecurrenceFields rule={rule} onChange={setRule} baseDate={task.due ?? today()} />
+                    {rule && (
+                        <>
+                            <label className="settings-row">
+                                <input type="checkbox" checked={countInTitle} onChange={(e) => setCountInTitle(e.target.checked)} />
+                                タイトルの番号を1つずつ増やす（例：第3回 → 第4回）
+                            </label>
+                            <p className="muted">
+                                完了すると次回（{describeRecurrence(rule)}、期限 {nextDue(rule, task.due, today())}）をすぐ後ろに追加します。
+                            </p>
+                        </>
+                    )}
+                    <div className="form-actions">
+                        <button className="btn primary" onClick={save}>保存</button>
+                        <button className="btn ghost" onClick={onClose}>キャンセル</button>
+                    </div>
+
+                    {history.length > 1 && (
+                        <>
+                            <h4>これまでの回（{history.length}）</h4>
+                            <ul className="series-history">
+                                {history.map((t) => (
+                                    <li key={t.id} className={t.id === task.id ? "current" : ""}>
+                                        <span className={t.done ? "done" : ""}>{t.done ? "✓" : "○"} {t.text}</span>
+                                        <span className="muted">
+                                            {t.due ? `期限 ${t.due}` : "期限なし"}
+                                            {t.completedAt && ` ・ 完了 ${t.completedAt.toLocaleDateString()}`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+                        </>
+                    )}
+                </div>
+            </div>
+        </div>
+    );
+};
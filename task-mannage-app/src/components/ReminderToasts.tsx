@@ -0,0 +1,36 @@
+// src/components/ReminderToasts.tsx
+import type { DueReminder } from "../utils/reminders";
+import { describeReminder, SNOOZE_PRESETS } from "../utils/reminders";
+
+type Props = {
+    toasts: DueReminder[];
+    onSnooze: (key: string, minutes: number) => void;
+    onDismiss: (key: string) => void;
+    // Shows the task list.
+    onOpen: () => void;
+};
+
+export default function ReminderToasts({ toasts, onSnooze, onDismiss, onOpen }: Props) {
+    if (toasts.length === 0) return null;
+    return (
+        <div className="toast-stack" role="status" aria-live="polite">
+            {toasts.map((r) => (
+                <div key={r.key} className="toast glass">
+                    <div className="toast-body">
+                        <button className="toast-title" onClick={() => { onOpen(); onDismiss(r.key); }} title="タスク一覧で表示">
+                            ⏰ {r.title}
+                        </button>
+                        <span className="muted">{describeReminder(r)}</span>
+                    </div>
+                    <div className="toast-actions">
+                        <span className="muted">スヌーズ：</span>
+                        {SNOOZE_PRESETS.map((s) => (
+                            <button key={s.minutes} className="chip" onClick={() => onSnooze(r.key, s.minutes)}>{s.label}</button>
+                        ))}
+                        <button className="chip" onClick={() => onDismiss(r.key)}>OK</button>
+                    </div>
+                </div>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,93 @@
+// src/components/SessionLogModal.tsx
+import { useState } from "react";
+import type { Task, TimeSession } from "../types";
+import { toLocalDateTime } from "../utils/date";
+import { formatDuration, sessionMs } from "../utils/timeTracking";
+
+interface SessionLogModalProps {
+    task: Task;
+    // Tracked time of the task's descendants, shown for context.
+    descendantsMs: number;
+    onSave: (sessions: TimeSession[] | undefined) => void;
+    onClose: () => void;
+}
+
+// Rows are edited as datetime-local strings and only turned back into sessions on save.
+// Untouched rows keep their original session, so saving does not round recorded seconds away.
+type Row = { key: number; start: string; end: string; original?: TimeSession };
+
+export const SessionLogModal: React.FC<SessionLogModalProps> = ({ task, descendantsMs, onSave, onClose }) => {
+    const [rows, setRows] = useState<Row[]>(() =>
+        (task.sessions ?? []).map((s, i) => ({ key: i, start: toLocalDateTime(s.start), end: toLocalDateTime(s.end), original: s }))
+    );
+    const [nextKey, setNextKey] = useState(rows.length);
+
+    const parsed = rows.map((r) => {
+        const untouched = r.original && r.start === toLocalDateTime(r.original.start) && r.end === toLocalDateTime(r.original.end);
+        return { ...r, session: untouched && r.original ? r.original : { start: new Date(r.start), end: new Date(r.end) } };
+    });
+    const isValid = (s: TimeSession) => !isNaN(s.start.getTime()) && !isNaN(s.end.getTime()) && s.end > s.start;
+    const invalid = parsed.some((r) => !isValid(r.session));
+    const totalMs = parsed.reduce((sum, r) => sum + (isValid(r.session) ? sessionMs(r.session) : 0), 0);
+
+    const setRow = (key: number, patch: Partial<Row>) => setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+    const addRow = () => {
+        const end = new Date();
+        const start = new Date(end.getTime() - 30 * 60_000);
+        setRows((prev) => [...prev, { key: nextKey, start: toLocalDateTime(start), end: toLocalDateTime(end) }]);
+        setNextKey(nextKey + 1);
+    };
+
+    const save = () => {
+        if (invalid) return;
+        const sessions = parsed.map((r) => r.session).sort((a, b) => a.start.getTime() - b.start.getTime());
+        onSave(sessions.length ? sessions : undefined);
+        onClose();
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>{task.text} の作業記録</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <p className="muted">
+                        合計 {formatDuration(totalMs)}
+                        {descendantsMs > 0 && `（サブタスクを含めると ${formatDuration(totalMs + descendantsMs)}）`}
+                    </p>
+                    {rows.length === 0 && <p className="muted">まだ記録はありません。カードの ▶ で計測するか、手動で追加できます。</p>}
+                    <ul className="session-list">
+                        {parsed.map((r) => (
+                            <li key={r.key} className={isValid(r.session) ? "" : "invalid"}>
+                                <input
+                                    className="input inline-input"
+                                    type="datetime-local"
+                                    value={r.start}
+                                    onChange={(e) => setRow(r.key, { start: e.target.value })}
+                                    aria-label="開始"
+                                />
+                                〜
+                                <input
+                                    className="input inline-input"
+                                    type="datetime-local"
+                                    value={r.end}
+                                    onChange={(e) => setRow(r.key, { end: e.target.value })}
+                                    aria-label="終了"
+                                />
+                                <span className="muted">{isValid(r.session) ? formatDuration(sessionMs(r.session)) : "終了が開始より前です"}</span>
+                                <button className="icon-btn danger" onClick={() => setRows((prev) => prev.filter((x) => x.key !== r.key))} aria-label="この記録を削除">✕</button>
+                            </li>
+                        ))}
+                    </ul>
+                    <div className="form-actions">
+                        <button className="btn ghost" onClick={addRow}>＋ 記録を追加</button>
+                        <button className="btn primary" onClick={save} disabled={invalid}>保存</button>
+                        <button className="btn ghost" onClick={onClose}>キャンセル</button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,157 @@
+// src/components/SettingsModal.tsx
+import type { CompletionRules, EstimateUnit, Settings, TimerSettings } from "../types";
+
+interface SettingsModalProps {
+    settings: Settings;
+    onChange: (patch: Partial<Settings>) => void;
+    notificationPermission: NotificationPermission | "unsupported";
+    onRequestNotifications: () => void;
+    onClose: () => void;
+}
+
+const PERMISSION_LABELS: Record<NotificationPermission | "unsupported", string> = {
+    granted: "許可済み",
+    denied: "ブロック中（ブラウザの設定から許可できます）",
+    default: "未設定",
+    unsupported: "このブラウザでは使えません",
+};
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ settings, onChange, notificationPermission, onRequestNotifications, onClose }) => {
+    const rules = settings.completion;
+    const setRules = (patch: Partial<CompletionRules>) => onChange({ completion: { ...rules, ...patch } });
+    const setTimer = (patch: Partial<TimerSettings>) => onChange({ timer: { ...settings.timer, ...patch } });
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>設定</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <h4>ビュー</h4>
+                    <label className="settings-row">
+                        「最近完了」は過去
+                        <input
+                            className="input days-input"
+                            type="number"
+                            min={1}
+                            value={settings.recentDays}
+                            onChange={(e) => {
+                                const days = parseInt(e.target.value, 10);
+                                if (days > 0) onChange({ recentDays: days });
+                            }}
+                        />
+                        日間に完了したタスク
+                    </label>
+
+                    <h4>リマインド</h4>
+                    <label className="settings-row">
+                        時刻のない期限は
+                        <input
+                            className="input inline-input"
+                            type="time"
+                            value={settings.defaultDueTime}
+                            onChange={(e) => { if (e.target.value) onChange({ defaultDueTime: e.target.value }); }}
+                        />
+                        を期限時刻としてリマインド
+                    </label>
+                    <div className="settings-row">
+                        <span>ブラウザ通知：{PERMISSION_LABELS[notificationPermission]}</span>
+                        {notificationPermission === "default" && (
+                            <button className="btn ghost" onClick={onRequestNotifications}>通知を許可する</button>
+                        )}
+                    </div>
+                    {notificationPermission !== "granted" && (
+                        <p className="muted">通知が使えない間は、リマインドを画面右下に表示します。</p>
+                    )}
+
+                    <h4>見積</h4>
+                    <div className="settings-row">
+                        <span>見積の単位</span>
+                        <div className="segmented">
+                            {(["hours", "points"] as EstimateUnit[]).map((unit) => (
+                                <button
+                                    key={unit}
+                                    className={`seg-item ${settings.estimateUnit === unit ? "active" : ""}`}
+                                    onClick={() => onChange({ estimateUnit: unit })}
+                                >
+                                    {unit === "hours" ? "時間 (h)" : "ポイント (pt)"}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <h4>タイマー</h4>
+                    <label className="settings-row">
+                        <input
+                            type="checkbox"
+                            checked={settings.timer.pomodoro}
+                            onChange={(e) => setTimer({ pomodoro: e.target.checked })}
+                        />
+                        ポモドーロモード（作業と休憩を交互に計測し、休憩中の時間は記録しません）
+                    </label>
+                    <label className="settings-row">
+                        作業
+                        <input
+                            className="input inline-input"
+                            type="number"
+                            min={1}
+                            value={settings.timer.workMinutes}
+                            disabled={!settings.timer.pomodoro}
+                            onChange={(e) => {
+                                const minutes = parseInt(e.target.value, 10);
+                                if (minutes > 0) setTimer({ workMinutes: minutes });
+                            }}
+                        />
+                        分 / 休憩
+                        <input
+                            className="input inline-input"
+                            type="number"
+                            min={1}
+                            value={settings.timer.breakMinutes}
+                            disabled={!settings.timer.pomodoro}
+                            onChange={(e) => {
+                                const minutes = parseInt(e.target.value, 10);
+                                if (minutes > 0) setTimer({ breakMinutes: minutes });
+                            }}
+                        />
+                        分
+                    </label>
+                    <p className="muted">ポモドーロモードの切り替えは、次に計測を開始したときから反映されます。</p>
+
+                    <h4>完了ルール</h4>
+                    <label className="settings-row">
+                        <input
+                            type="checkbox"
+                            checked={rules.autoCompleteParent}
+                            onChange={(e) => setRules({ autoCompleteParent: e.target.checked })}
+                        />
+                        サブタスクがすべて完了したら親タスクも自動で完了（サブタスクを未完に戻すと親も未完に戻ります）
+                    </label>
+                    <label className="settings-row">
+                        <input
+                            type="checkbox"
+                            checked={rules.cascadeDown}
+                            onChange={(e) => setRules({ cascadeDown: e.target.checked })}
+                        />
+                        親タスクを完了したらサブタスクもすべて完了
+                    </label>
+                    <div className="settings-row">
+                        <span>未完了のサブタスクが残る親を完了するとき</span>
+                        <select
+                            className="input inline-input"
+                            value={rules.openChildren}
+                            disabled={rules.cascadeDown}
+                            onChange={(e) => setRules({ openChildren: e.target.value as CompletionRules["openChildren"] })}
+                        >
+                            <option value="allow">そのまま完了</option>
+                            <option value="warn">確認する</option>
+                            <option value="block">完了させない</option>
+                        </select>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
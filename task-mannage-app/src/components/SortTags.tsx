@@ -1,10 +1,9 @@
 import { useState } from "react";
-import type { Priority } from "../types";
+import type { Priority, SortKey, SortOptions, SortOrder, SortRule, Task } from "../types";
 
 
-// ソートの種類を定義
-export type SortKey = 'dueDate' | 'priority' | 'createdAt';
-export type SortOrder = 'asc' | 'desc';
+// ソートの種類は types.ts で定義（設定として保存するため）
+export type { SortKey, SortOrder };
 
 interface SortTagsProps {
     // 現在のソートキーと順序をApp.tsxから受け取る
@@ -12,42 +11,125 @@ interface SortTagsProps {
     currentSortOrder: SortOrder;
     // ソートが変更されたときにApp.tsxに通知する関数
     onSortChange: (key: SortKey, order: SortOrder) => void;
+    // 第2キー以降・未設定の値の位置・並べ替える範囲
+    options: SortOptions;
+    onOptionsChange: (options: SortOptions) => void;
+    // 「このタスクの配下だけ」を選ぶための候補
+    scopeTargets: { task: Task; depth: number }[];
 }
 
-const SortTags: React.FC<SortTagsProps> = ({ currentSortKey, currentSortOrder, onSortChange }) => {
+type RuleKey = SortRule['key'];
+
+const KEY_LABELS: Record<RuleKey, string> = {
+    dueDate: '期限順',
+    priority: '重要度順',
+    createdAt: '追加した順',
+    title: 'タイトル順',
+    completedAt: '完了日時順',
+    progress: '進捗順',
+    effort: '残り工数順',
+};
+const RULE_KEYS = Object.keys(KEY_LABELS) as RuleKey[];
+
+const orderIcon = (order: SortOrder) => (order === 'asc' ? '🔼' : '🔽');
+
+const SortTags: React.FC<SortTagsProps> = ({ currentSortKey, currentSortOrder, onSortChange, options, onOptionsChange, scopeTargets }) => {
 
     const handleSort = (key: SortKey) => {
+        // 手動順には昇順/降順がない
+        if (key === 'manual') {
+            onSortChange(key, 'asc');
         // 同じキーがクリックされたら、昇順/降順を切り替える
-        if (key === currentSortKey) {
+        } else if (key === currentSortKey) {
             onSortChange(key, currentSortOrder === 'asc' ? 'desc' : 'asc');
         } else {
-            // 違うキーがクリックされたら、デフォルトで降順にする
+            // 違うキーがクリックされたら、デフォルトで降順にする（第2キー以降に同じキーがあれば外す）
             onSortChange(key, 'desc');
+            if (options.thenBy.some((r) => r.key === key)) {
+                onOptionsChange({ ...options, thenBy: options.thenBy.filter((r) => r.key !== key) });
+            }
         }
     };
 
+    // 第2キー以降の編集
+    const usedKeys = new Set<SortKey>([currentSortKey, ...options.thenBy.map((r) => r.key)]);
+    const unusedKeys = RULE_KEYS.filter((k) => !usedKeys.has(k));
+    const setRules = (thenBy: SortRule[]) => onOptionsChange({ ...options, thenBy });
+    const updateRule = (i: number, rule: SortRule) => setRules(options.thenBy.map((r, j) => (j === i ? rule : r)));
+    const removeRule = (i: number) => setRules(options.thenBy.filter((_, j) => j !== i));
+
+    const scopeValue = options.scope.kind === 'subtree' ? options.scope.rootId : options.scope.kind;
+    const setScope = (value: string) => {
+        const scope: SortOptions['scope'] = value === 'all' || value === 'top' ? { kind: value } : { kind: 'subtree', rootId: value };
+        onOptionsChange({ ...options, scope });
+    };
+
     return (
-        <div className="chips">
+        <div className="chips sort-tags">
+            {RULE_KEYS.map((key) => (
+                <button
+                    key={key}
+                    className={`chip ${currentSortKey === key ? 'active' : ''}`}
+                    onClick={() => handleSort(key)}
+                >
+                    {KEY_LABELS[key]} {currentSortKey === key && orderIcon(currentSortOrder)}
+                </button>
+            ))}
             <button
-                className={`chip ${currentSortKey === 'dueDate' ? 'active' : ''}`}
-                onClick={() => handleSort('dueDate')}
+                className={`chip ${currentSortKey === 'manual' ? 'active' : ''}`}
+                onClick={() => handleSort('manual')}
+                title="ドラッグで並べ替えた順番"
             >
-                期限順 {currentSortKey === 'dueDate' && (currentSortOrder === 'asc' ? '🔼' : '🔽')}
-            </button>
-            <button
-                className={`chip ${currentSortKey === 'priority' ? 'active' : ''}`}
-                onClick={() => handleSort('priority')}
-            >
-                重要度順 {currentSortKey === 'priority' && (currentSortOrder === 'asc' ? '🔼' : '🔽')}
-            </button>
-            <button
-                className={`chip ${currentSortKey === 'createdAt' ? 'active' : ''}`}
-                onClick={() => handleSort('createdAt')}
-            >
-                追加した順 {currentSortKey === 'createdAt' && (currentSortOrder === 'asc' ? '🔼' : '🔽')}
+                手動順
             </button>
+
+            {currentSortKey !== 'manual' && (
+                <div className="sort-options">
+                    {options.thenBy.map((rule, i) => (
+                        <span key={rule.key} className="chip sort-rule">
+                            次に
+                            <select
+                                className="input inline-input"
+                                value={rule.key}
+                                onChange={(e) => updateRule(i, { ...rule, key: e.target.value as RuleKey })}
+                                aria-label={`第${i + 2}キー`}
+                            >
+                                {[rule.key, ...unusedKeys].map((k) => <option key={k} value={k}>{KEY_LABELS[k]}</option>)}
+                            </select>
+                            <button onClick={() => updateRule(i, { ...rule, order: rule.order === 'asc' ? 'desc' : 'asc' })} title="昇順/降順を切り替え">
+                                {orderIcon(rule.order)}
+                            </button>
+                            <button onClick={() => removeRule(i)} aria-label="このキーを外す">✕</button>
+                        </span>
+                    ))}
+                    {unusedKeys.length > 0 && (
+                        <button className="chip" onClick={() => setRules([...options.thenBy, { key: unusedKeys[0], order: 'desc' }])}>
+                            ＋ キーを追加
+                        </button>
+                    )}
+                    <button
+                        className="chip"
+                        onClick={() => onOptionsChange({ ...options, missing: options.missing === 'last' ? 'first' : 'last' })}
+                        title="期限なし・未完了など、値のないタスクの位置"
+                    >
+                        値なし：{options.missing === 'last' ? '末尾' : '先頭'}
+                    </button>
+                    <select
+                        className="input inline-input"
+                        value={scopeValue}
+                        onChange={(e) => setScope(e.target.value)}
+                        aria-label="並べ替える範囲"
+                    >
+                        <option value="all">範囲：すべての階層</option>
+                        <option value="top">範囲：最上位のみ</option>
+                        {scopeTargets.filter(({ task }) => task.children.length > 0).map(({ task, depth }) => (
+                            <option key={task.id} value={task.id}>{"　".repeat(depth)}{task.text} の配下のみ</option>
+                        ))}
+                    </select>
+                </div>
+            )}
         </div>
     );
 };
 
-export default SortTags;
\ No newline at end of file
+export default SortTags;
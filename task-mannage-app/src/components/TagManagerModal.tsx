@@ -0,0 +1,93 @@
+// src/components/TagManagerModal.tsx
+import { useState } from "react";
+import { TAG_COLORS, tagColor } from "../utils/tags";
+
+interface TagManagerModalProps {
+    tags: { name: string; count: number }[];
+    colors: Record<string, string>;
+    onRecolor: (name: string, color: string) => void;
+    // Renaming onto an existing tag merges the two.
+    onRename: (from: string, to: string) => void;
+    onDelete: (name: string) => void;
+    onClose: () => void;
+}
+
+export const TagManagerModal: React.FC<TagManagerModalProps> = ({ tags, colors, onRecolor, onRename, onDelete, onClose }) => {
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>タグ管理</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <p className="muted">名前を既存のタグと同じにすると、2 つのタグを統合します。</p>
+                    {tags.length === 0 && <p className="muted">タグはまだありません。入力画面か、構造表示の「🏷 タグ」から追加できます。</p>}
+                    <ul className="tag-manager">
+                        {tags.map((tag) => (
+                            <TagRow
+                                key={tag.name}
+                                tag={tag}
+                                color={tagColor(tag.name, colors)}
+                                existing={tags.map((t) => t.name)}
+                                onRecolor={(color) => onRecolor(tag.name, color)}
+                                onRename={(to) => onRename(tag.name, to)}
+                                onDelete={() => onDelete(tag.name)}
+                            />
+                        ))}
+                    </ul>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+function TagRow({ tag, color, existing, onRecolor, onRename, onDelete }: {
+    tag: { name: string; count: number };
+    color: string;
+    existing: string[];
+    onRecolor: (color: string) => void;
+    onRename: (to: string) => void;
+    onDelete: () => void;
+}) {
+    const [draft, setDraft] = useState(tag.name);
+
+    const rename = () => {
+        const to = draft.trim().replace(/^[+＋]/, "");
+        if (!to || to === tag.name) { setDraft(tag.name); return; }
+        if (existing.includes(to) && !window.confirm(`タグ "${tag.name}" を "${to}" に統合しますか？`)) { setDraft(tag.name); return; }
+        onRename(to);
+    };
+
+    return (
+        <li className="tag-row">
+            <span className="tag-swatch" style={{ background: color }} />
+            <input
+                className="input inline-input"
+                value={draft}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => { if (e.key === "Enter" && !e.nativeEvent.isComposing) e.currentTarget.blur(); }}
+                onBlur={rename}
+                aria-label="タグ名"
+            />
+            <span className="muted">{tag.count} 件</span>
+            <span className="tag-palette">
+                {TAG_COLORS.map((c) => (
+                    <button
+                        key={c}
+                        className={`tag-color ${c === color ? "active" : ""}`}
+                        style={{ background: c }}
+                        onClick={() => onRecolor(c)}
+                        aria-label={`色 ${c}`}
+                    />
+                ))}
+            </span>
+            <button
+                className="btn ghost danger-text"
+                onClick={() => { if (window.confirm(`タグ "${tag.name}" を ${tag.count} 件のタスクから外しますか？`)) onDelete(); }}
+            >
+                削除
+            </button>
+        </li>
+    );
+}
@@ -1,79 +1,353 @@
-import { useMemo, useState } from "react";
-import type { Task } from "../types";
+import { useEffect, useMemo, useRef, useState } from "react";
+import type { EstimateUnit, Priority, Task, TaskDraft, TaskPatch } from "../types";
+import { filterByTags, flattenTasks } from "../utils/tree";
+import { buildEffortMap, buildProgressMap, Effort, formatEffort, Progress } from "../utils/progress";
+import { collectTags, formatTagInput, parseTagInput, tagColor } from "../utils/tags";
+import { applySearch, findMatches, matchesSearch, parseSearchQuery, TextRange } from "../utils/search";
+import { applyQuery, ParsedQuery } from "../utils/query";
+import { describeRecurrence } from "../utils/recurrence";
+import { formatOffset, REMINDER_PRESETS } from "../utils/reminders";
+import { buildTrackedMap, formatDuration, trackedMs } from "../utils/timeTracking";
+import { buildBlockedMap } from "../utils/dependencies";
+import { BulkAction, BulkActionBar } from "./BulkActionBar";
 
 type Props = {
     tasks: Task[];
-    filter: "all" | "active" | "done";
+    filter: ParsedQuery;
+    tagFilter: string[];
+    tagColors: Record<string, string>;
+    estimateUnit: EstimateUnit;
+    query: string;
+    onQueryChange: (query: string) => void;
     onToggleDone: (id: string) => void;
     onRemove: (id: string) => void;
     onToggleCollapse: (id: string) => void;
     onDropAsChild: (parentId: string, draggedId: string) => void;
     onDropToRoot: (draggedId: string) => void;
+    onDropBeside: (targetId: string, draggedId: string, position: "before" | "after") => void;
     onOpenModal: (task: Task) => void;
+    onOpenRecurrence: (task: Task) => void;
+    onOpenSessions: (task: Task) => void;
+    onOpenDependencies: (task: Task) => void;
+    runningTaskId: string | null;
+    onToggleTimer: (id: string) => void;
+    onUpdate: (id: string, patch: TaskPatch) => void;
+    onAddChild: (parentId: string, draft: TaskDraft) => void;
+    onAddSibling: (siblingId: string, draft: TaskDraft) => void;
+    onBulk: (ids: string[], action: BulkAction) => void;
+    onSaveTemplate: (id: string) => void;
+};
+
+type OutlinerAction = "up" | "down" | "parent" | "firstChild" | "indent" | "outdent" | "moveUp" | "moveDown" | "remove";
+
+// Callbacks every Node passes down to its children unchanged.
+type NodeCallbacks = Omit<Props, "tasks" | "filter" | "tagFilter" | "query" | "onQueryChange" | "onDropToRoot" | "onBulk"> & {
+    selectedIds: Set<string>;
+    selectMode: boolean;
+    onSelect: (id: string, how: "toggle" | "range") => void;
+    focusedId: string | null;
+    onFocusNode: (id: string) => void;
+    onOutlinerKey: (id: string, action: OutlinerAction) => void;
+    // Counted on the unfiltered tree, so hiding done tasks does not change a parent's progress.
+    progress: Map<string, Progress>;
+    effort: Map<string, Effort>;
+    tracked: Map<string, number>; // ms, including descendants
+    blocked: Map<string, Task[]>; // open blockers of open tasks
+    tagNames: string[];
+    searchWords: string[];
+    forceExpanded: boolean; // collapse toggles are disabled meanwhile
+    currentHitId: string | null;
 };
 
 export default function TaskTree({
                                      tasks,
                                      filter,
-                                     onToggleDone,
-                                     onRemove,
-                                     onToggleCollapse,
-                                     onDropAsChild,
+                                     tagFilter,
+                                     query,
+                                     onQueryChange,
                                      onDropToRoot,
-                                     onOpenModal,
+                                     onBulk,
+                                     ...callbacks
                                  }: Props) {
-    const filtered = useMemo(() => {
-        if (filter === "active") return filterTasks(tasks, (t) => !t.done);
-        if (filter === "done") return filterTasks(tasks, (t) => t.done);
-        return tasks;
-    }, [tasks, filter]);
+    const filtered = useMemo(
+        () => applySearch(filterByTags(applyQuery(tasks, filter), tagFilter), query),
+        [tasks, filter, tagFilter, query]
+    );
+    const searchWords = useMemo(() => parseSearchQuery(query), [query]);
+    // While searching, every ancestor of a hit is shown open whatever its stored collapsed state.
+    const forceExpanded = searchWords.length > 0;
+    const outline = useMemo(() => buildOutline(filtered, forceExpanded), [filtered, forceExpanded]);
+    const [focusedId, setFocusedId] = useState<string | null>(null);
+    const listRef = useRef<HTMLUListElement>(null);
+    const progress = useMemo(() => buildProgressMap(tasks), [tasks]);
+    const effort = useMemo(() => buildEffortMap(tasks), [tasks]);
+    const tracked = useMemo(() => buildTrackedMap(tasks), [tasks]);
+    const blocked = useMemo(() => buildBlockedMap(tasks), [tasks]);
+    const tagNames = useMemo(() => collectTags(tasks).map((t) => t.name), [tasks]);
+
+    // --- Search hits, in display order ---
+    const hitIds = useMemo(() => {
+        if (searchWords.length === 0) return [];
+        const byId = new Map(flattenTasks(filtered).map((t) => [t.id, t]));
+        return outline.visible.filter((id) => matchesSearch(byId.get(id)!, searchWords));
+    }, [filtered, outline, searchWords]);
+    const [hitIndex, setHitIndex] = useState(-1);
+    const currentHitId = hitIndex >= 0 ? hitIds[hitIndex] ?? null : null;
+
+    // Enter / Shift+Enter step through the hits; the search box keeps focus.
+    const jumpToHit = (step: 1 | -1) => {
+        if (hitIds.length === 0) return;
+        const next = hitIndex < 0
+            ? (step === 1 ? 0 : hitIds.length - 1)
+            : (hitIndex + step + hitIds.length) % hitIds.length;
+        setHitIndex(next);
+        setFocusedId(hitIds[next]);
+        listRef.current
+            ?.querySelector(`[data-task-id="${CSS.escape(hitIds[next])}"]`)
+            ?.scrollIntoView({ block: "center", behavior: "smooth" });
+    };
+
+    // --- Multi-selection ---
+    const [selection, setSelection] = useState<Set<string>>(new Set());
+    const [anchorId, setAnchorId] = useState<string | null>(null);
+    const [selectMode, setSelectMode] = useState(false);
+    const allTasks = useMemo(() => flattenTasks(tasks), [tasks]);
+    // Ignore ids that have since been deleted.
+    const selectedIds = useMemo(() => {
+        const existing = new Set(allTasks.map((t) => t.id));
+        return new Set([...selection].filter((id) => existing.has(id)));
+    }, [selection, allTasks]);
+
+    const handleSelect = (id: string, how: "toggle" | "range") => {
+        if (how === "range" && anchorId && outline.visible.includes(anchorId) && outline.visible.includes(id)) {
+            const [a, b] = [outline.visible.indexOf(anchorId), outline.visible.indexOf(id)].sort((x, y) => x - y);
+            setSelection((prev) => new Set([...prev, ...outline.visible.slice(a, b + 1)]));
+            return;
+        }
+        setSelection((prev) => {
+            const next = new Set(prev);
+            if (next.has(id)) next.delete(id);
+            else next.add(id);
+            return next;
+        });
+        setAnchorId(id);
+    };
+    const clearSelection = () => { setSelection(new Set()); setAnchorId(null); };
+
+    const moveTargets = useMemo(() => {
+        const out: { task: Task; depth: number }[] = [];
+        const walk = (arr: Task[], depth: number) => arr.forEach((t) => {
+            if (selectedIds.has(t.id)) return; // a selected task and its subtree cannot be a target
+            out.push({ task: t, depth });
+            walk(t.children, depth + 1);
+        });
+        walk(tasks, 0);
+        return out;
+    }, [tasks, selectedIds]);
+
+    const handleBulk = (action: BulkAction) => {
+        onBulk([...selectedIds], action);
+        if (action.kind === "remove") clearSelection();
+    };
+
+    // Keep keyboard focus on the focused task across re-renders (moving a task can remount its card),
+    // without stealing focus from elements outside the tree.
+    useEffect(() => {
+        if (!focusedId || !listRef.current) return;
+        const active = document.activeElement;
+        if (active && active !== document.body && !listRef.current.contains(active)) return;
+        if (active && active.closest("input, textarea, select, form")) return;
+        const el = listRef.current.querySelector<HTMLElement>(`[data-task-id="${CSS.escape(focusedId)}"]`);
+        if (el && el !== active) el.focus();
+    }, [focusedId, filtered]);
+
+    // Navigation and restructuring follow the tree as displayed (sorted and filtered),
+    // and reuse the same operations as drag and drop.
+    const handleOutlinerKey = (id: string, action: OutlinerAction) => {
+        const { visible, parentOf, childrenOf } = outline;
+        const i = visible.indexOf(id);
+        const parentId = parentOf.get(id) ?? null;
+        const siblings = childrenOf.get(parentId) ?? [];
+        const si = siblings.indexOf(id);
+
+        switch (action) {
+            case "up":
+                if (i > 0) setFocusedId(visible[i - 1]);
+                break;
+            case "down":
+                if (i >= 0 && i < visible.length - 1) setFocusedId(visible[i + 1]);
+                break;
+            case "parent":
+                if (parentId) setFocusedId(parentId);
+                break;
+            case "firstChild": {
+                const first = childrenOf.get(id)?.[0];
+                if (first && visible.includes(first)) setFocusedId(first);
+                break;
+            }
+            case "indent": {
+                // Becomes the last child of the previous sibling, which is expanded so the task stays visible.
+                const prev = siblings[si - 1];
+                if (!prev) break;
+                if (outline.collapsed.has(prev)) callbacks.onToggleCollapse(prev);
+                callbacks.onDropAsChild(prev, id);
+                break;
+            }
+            case "outdent":
+                // Moves up to the grandparent, right after its former parent.
+                if (parentId) callbacks.onDropBeside(parentId, id, "after");
+                break;
+            case "moveUp":
+                if (si > 0) callbacks.onDropBeside(siblings[si - 1], id, "before");
+                break;
+            case "moveDown":
+                if (si >= 0 && si < siblings.length - 1) callbacks.onDropBeside(siblings[si + 1], id, "after");
+                break;
+            case "remove": {
+                const isInside = (other: string) => {
+                    for (let p = parentOf.get(other); p; p = parentOf.get(p)) if (p === id) return true;
+                    return false;
+                };
+                const next = visible.slice(i + 1).find((v) => !isInside(v)) ?? visible[i - 1] ?? null;
+                setFocusedId(next);
+                callbacks.onRemove(id);
+                break;
+            }
+        }
+    };
+
+    const nodeCallbacks: NodeCallbacks = {
+        ...callbacks,
+        selectedIds,
+        selectMode,
+        onSelect: handleSelect,
+        focusedId: focusedId ?? outline.visible[0] ?? null,
+        onFocusNode: setFocusedId,
+        onOutlinerKey: handleOutlinerKey,
+        progress,
+        effort,
+        tracked,
+        blocked,
+        tagNames,
+        searchWords,
+        forceExpanded,
+        currentHitId,
+    };
 
     return (
         <section className="panel">
             <div className="panel-head">
                 <h2>構造的タスク表示</h2>
+                <button
+                    className={`chip ${selectMode ? "active" : ""}`}
+                    onClick={() => { if (selectMode) clearSelection(); setSelectMode(!selectMode); }}
+                    title="Ctrl/⌘+クリックで追加選択、Shift+クリックで範囲選択"
+                >
+                    ☑ 選択モード
+                </button>
+                <p className="muted outliner-help">
+                    キーボード：↑↓ 移動 ／ ←→ 折りたたみ・展開 ／ Enter 同じ階層に追加 ／ Tab・Shift+Tab 階層を下げる・上げる ／ Space 完了 ／ F2 名前変更 ／ Delete 削除 ／ Alt+↑↓ 並べ替え
+                </p>
+            </div>
+
+            <div className="search-bar">
+                <input
+                    className="input"
+                    type="search"
+                    placeholder="タスク名・メモを検索（Enter で次、Shift+Enter で前へ）"
+                    value={query}
+                    onChange={(e) => { onQueryChange(e.target.value); setHitIndex(-1); }}
+                    onKeyDown={(e) => {
+                        if (e.key === "Enter" && !e.nativeEvent.isComposing) { e.preventDefault(); jumpToHit(e.shiftKey ? -1 : 1); }
+                        else if (e.key === "Escape") { onQueryChange(""); setHitIndex(-1); }
+                    }}
+                    aria-label="検索"
+                />
+                {searchWords.length > 0 && (
+                    <span className="muted">
+                        {hitIds.length === 0 ? "一致なし" : `${currentHitId ? `${hitIndex + 1} / ` : ""}${hitIds.length} 件一致`}
+                    </span>
+                )}
             </div>
 
             <div className="root-drop glass" onDragOver={prevent} onDrop={(e) => handleRootDrop(e, onDropToRoot)}>
                 ここにドロップで最上位に移動
             </div>
 
-            <ul className="tree-level">
+            {selectedIds.size > 0 && (
+                <BulkActionBar count={selectedIds.size} moveTargets={moveTargets} onAction={handleBulk} onClear={clearSelection} />
+            )}
+
+            <ul className="tree-level" ref={listRef} onKeyDown={(e) => { if (e.key === "Escape" && selectedIds.size > 0) clearSelection(); }}>
                 {filtered.map((t) => (
-                    <Node
-                        key={t.id}
-                        task={t}
-                        depth={0}
-                        onToggleDone={onToggleDone}
-                        onRemove={onRemove}
-                        onToggleCollapse={onToggleCollapse}
-                        onDropAsChild={onDropAsChild}
-                        onOpenModal={onOpenModal}
-                    />
+                    <Node key={t.id} task={t} depth={0} {...nodeCallbacks} />
                 ))}
             </ul>
         </section>
     );
 }
 
-function Node({
-                  task,
-                  depth,
-                  onToggleDone,
-                  onRemove,
-                  onToggleCollapse,
-                  onDropAsChild,
-                  onOpenModal,
-              }: {
-    task: Task;
-    depth: number;
-    onToggleDone: (id: string) => void;
-    onRemove: (id: string) => void;
-    onToggleCollapse: (id: string) => void;
-    onDropAsChild: (parentId: string, draggedId: string) => void;
-    onOpenModal: (task: Task) => void;
-}) {
-    const [over, setOver] = useState(false);
+function Node({ task, depth, ...callbacks }: { task: Task; depth: number } & NodeCallbacks) {
+    const {
+        onToggleDone, onRemove, onToggleCollapse, onDropAsChild, onDropBeside, onOpenModal, onOpenRecurrence, onOpenSessions, onOpenDependencies, onToggleTimer, runningTaskId, onUpdate, onAddChild, onAddSibling, onSaveTemplate,
+        selectedIds, selectMode, onSelect, focusedId, onFocusNode, onOutlinerKey, progress, effort, tracked, blocked, estimateUnit, tagColors, tagNames,
+        searchWords, forceExpanded, currentHitId,
+    } = callbacks;
+    const collapsed = !!task.collapsed && !forceExpanded;
+    const noteMatches = searchWords.length > 0 ? findMatches(task.note ?? "", searchWords) : [];
+    const noteHit = noteMatches.length > 0;
+    const rollup = progress.get(task.id);
+    // Once subtasks carry estimates the card shows their roll-up instead of its own estimate.
+    const effortRollup = task.children.some((c) => effort.has(c.id)) ? effort.get(task.id) : undefined;
+    const trackedTotal = tracked.get(task.id) ?? 0;
+    const timing = runningTaskId === task.id;
+    const waitingOn = blocked.get(task.id);
+    const selected = selectedIds.has(task.id);
+    const [over, setOver] = useState<DropZone | null>(null);
+    const [editing, setEditing] = useState<"text" | "priority" | "start" | "due" | "reminders" | "estimate" | "tags" | null>(null);
+    const [adding, setAdding] = useState<"child" | "sibling" | null>(null);
+    const cardRef = useRef<HTMLDivElement>(null);
+
+    // Return focus to the card when an inline editor closes, unless the user has clicked somewhere else.
+    const refocusCard = () => setTimeout(() => {
+        const active = document.activeElement;
+        if (!active || active === document.body) cardRef.current?.focus();
+    });
+    const stopEditing = () => { setEditing(null); refocusCard(); };
+    const stopAdding = () => { setAdding(null); refocusCard(); };
+
+    // Ctrl/Cmd+click toggles the selection, Shift+click extends it; clicks on controls inside the card are left alone.
+    const onCardClick: React.MouseEventHandler<HTMLDivElement> = (e) => {
+        if (!(e.ctrlKey || e.metaKey || e.shiftKey)) return;
+        if ((e.target as HTMLElement).closest("button, input, select, textarea, form")) return;
+        e.preventDefault();
+        onSelect(task.id, e.shiftKey ? "range" : "toggle");
+    };
+
+    // Outliner keys only apply while the card itself has focus, not its buttons or inputs.
+    const onCardKeyDown: React.KeyboardEventHandler<HTMLDivElement> = (e) => {
+        if (e.target !== e.currentTarget || e.nativeEvent.isComposing || e.ctrlKey || e.metaKey) return;
+        const hasChildren = task.children.length > 0;
+        switch (e.key) {
+            case "ArrowUp": onOutlinerKey(task.id, e.altKey ? "moveUp" : "up"); break;
+            case "ArrowDown": onOutlinerKey(task.id, e.altKey ? "moveDown" : "down"); break;
+            case "ArrowLeft":
+                if (hasChildren && !collapsed && !forceExpanded) onToggleCollapse(task.id);
+                else onOutlinerKey(task.id, "parent");
+                break;
+            case "ArrowRight":
+                if (hasChildren && collapsed) onToggleCollapse(task.id);
+                else onOutlinerKey(task.id, "firstChild");
+                break;
+            case "Tab": onOutlinerKey(task.id, e.shiftKey ? "outdent" : "indent"); break;
+            case " ": onToggleDone(task.id); break;
+            case "Enter": setAdding("sibling"); break;
+            case "F2": setEditing("text"); break;
+            case "Delete": onOutlinerKey(task.id, "remove"); break;
+            default: return;
+        }
+        e.preventDefault();
+    };
 
     const onDragStart: React.DragEventHandler<HTMLDivElement> = (e) => {
         e.dataTransfer.setData("text/plain", task.id);
@@ -82,19 +356,21 @@ function Node({
 
     const onDragOver: React.DragEventHandler<HTMLDivElement> = (e) => {
         e.preventDefault();
-        setOver(true);
+        setOver(dropZoneAt(e));
     };
 
     const onDragLeave: React.DragEventHandler<HTMLDivElement> = () => {
-        setOver(false);
+        setOver(null);
     };
 
     const onDrop: React.DragEventHandler<HTMLDivElement> = (e) => {
         e.preventDefault();
-        setOver(false);
+        setOver(null);
         const draggedId = e.dataTransfer.getData("text/plain");
         if (!draggedId || draggedId === task.id) return;
-        onDropAsChild(task.id, draggedId);
+        const zone = dropZoneAt(e);
+        if (zone === "child") onDropAsChild(task.id, draggedId);
+        else onDropBeside(task.id, draggedId, zone);
     };
 
     // Hover display variable (logic to truncate if too long)
@@ -120,9 +396,16 @@ function Node({
     return (
         <li className="tree-item">
             <div
-                className={`card neon ${over ? "drop-over" : ""}`}
+                ref={cardRef}
+                className={`card neon ${over === "child" ? "drop-over" : over ? `drop-${over}` : ""} ${selected ? "selected" : ""} ${currentHitId === task.id ? "current-hit" : ""} ${timing ? "timing" : ""} ${waitingOn ? "blocked" : ""}`}
                 style={{ marginLeft: depth * 16, position: "relative" }}
-                draggable
+                data-task-id={task.id}
+                tabIndex={focusedId === task.id ? 0 : -1}
+                onFocus={(e) => { if (e.target === e.currentTarget) onFocusNode(task.id); }}
+                onKeyDown={onCardKeyDown}
+                onClick={onCardClick}
+                aria-selected={selected}
+                draggable={editing === null}
                 onDragStart={onDragStart}
                 onDragOver={onDragOver}
                 onDragLeave={onDragLeave}
@@ -130,68 +413,599 @@ function Node({
                 aria-label={`タスク: ${task.text}`}
             >
                 <div className="card-left">
+                    {selectMode && (
+                        <input
+                            type="checkbox"
+                            className="select-box"
+                            checked={selected}
+                            onChange={() => {}}
+                            onClick={(e) => onSelect(task.id, e.shiftKey ? "range" : "toggle")}
+                            aria-label="選択"
+                        />
+                    )}
                     <button
                         className="icon-btn"
-                        aria-label={task.collapsed ? "展開" : "折りたたみ"}
+                        aria-label={collapsed ? "展開" : "折りたたみ"}
                         onClick={() => onToggleCollapse(task.id)}
-                        title={task.collapsed ? "展開" : "折りたたみ"}
+                        disabled={forceExpanded}
+                        title={forceExpanded ? "検索中はすべて展開して表示します" : collapsed ? "展開" : "折りたたみ"}
                     >
-                        {task.children.length > 0 ? (task.collapsed ? "▸" : "▾") : "·"}
+                        {task.children.length > 0 ? (collapsed ? "▸" : "▾") : "·"}
                     </button>
 
-                    <label className="task-label">
-                        <input type="checkbox" checked={task.done} onChange={() => onToggleDone(task.id)} />
-                        <span className={`task-text ${task.done ? "done" : ""}`}>{task.text}</span>
-                    </label>
+                    {editing === "text" ? (
+                        <TitleEditor
+                            initial={task.text}
+                            onSave={(text) => { onUpdate(task.id, { text }); stopEditing(); }}
+                            onCancel={stopEditing}
+                        />
+                    ) : (
+                        // Not a <label>: clicking the title must not toggle the checkbox, double-click renames.
+                        <div className="task-label">
+                            <input type="checkbox" checked={task.done} onChange={() => onToggleDone(task.id)} aria-label="完了" />
+                            <span
+                                className={`task-text ${task.done ? "done" : ""}`}
+                                onDoubleClick={() => setEditing("text")}
+                                title="ダブルクリックで名前を変更"
+                            >
+                                <Highlighted text={task.text} words={searchWords} />
+                            </span>
+                        </div>
+                    )}
                 </div>
 
                 <div className="card-meta">
-                    {task.note && (
-                        <button className="icon-btn memo-icon" onClick={() => onOpenModal(task)}>
-                            📝
+                    {rollup && <ProgressPill {...rollup} />}
+                    {waitingOn ? (
+                        <button
+                            className="pill pill-btn blocked-pill"
+                            onClick={() => onOpenDependencies(task)}
+                            title={`完了待ち：${waitingOn.map((t) => t.text).join("、")}`}
+                        >
+                            ⛔ 待ち {waitingOn.length}
+                        </button>
+                    ) : (
+                        <button
+                            className={`pill pill-btn ${task.blockedBy?.length ? "" : "add-on-hover"}`}
+                            onClick={() => onOpenDependencies(task)}
+                            title={task.blockedBy?.length ? "依存しているタスクはすべて完了しています" : "先に終わらせるべきタスクを指定"}
+                        >
+                            🔗 依存
+                        </button>
+                    )}
+                    <button
+                        className={`icon-btn memo-icon ${task.note ? "" : "add-on-hover"} ${noteHit ? "note-hit" : ""}`}
+                        onClick={() => onOpenModal(task)}
+                        title={noteHit ? "メモが検索語に一致" : task.note ? "メモを開く" : "メモを追加"}
+                    >
+                        📝
+                    </button>
+
+                    {editing === "priority" ? (
+                        <PriorityPicker
+                            value={task.priority}
+                            onPick={(priority) => { onUpdate(task.id, { priority }); stopEditing(); }}
+                            onCancel={stopEditing}
+                        />
+                    ) : (
+                        <button
+                            className={`pill pill-btn ${task.priority ?? "add-on-hover"}`}
+                            onClick={() => setEditing("priority")}
+                            title="クリックで優先度を変更"
+                        >
+                            {task.priority ? prioLabel(task.priority) : "優先度"}
+                        </button>
+                    )}
+
+                    {editing === "start" ? (
+                        <DueEditor
+                            initial={task.start}
+                            label="開始日"
+                            withTime={false}
+                            onSave={(start) => { onUpdate(task.id, { start }); stopEditing(); }}
+                            onCancel={stopEditing}
+                        />
+                    ) : (
+                        <button
+                            className={`pill pill-btn start ${task.start ? "" : "add-on-hover"}`}
+                            onClick={() => setEditing("start")}
+                            title="クリックで開始日を変更"
+                        >
+                            {task.start ? `開始 ${fmtDate(task.start)}` : "開始日"}
+                        </button>
+                    )}
+
+                    {editing === "due" ? (
+                        <DueEditor
+                            initial={task.due}
+                            initialTime={task.dueTime}
+                            onSave={(due, dueTime) => { onUpdate(task.id, { due, dueTime }); stopEditing(); }}
+                            onCancel={stopEditing}
+                        />
+                    ) : (
+                        <button
+                            className={`pill pill-btn due ${task.due ? "" : "add-on-hover"}`}
+                            onClick={() => setEditing("due")}
+                            title="クリックで期限を変更"
+                        >
+                            {task.due ? `期限 ${fmtDate(task.due)}${task.dueTime ? ` ${task.dueTime}` : ""}` : "期限"}
+                        </button>
+                    )}
+
+                    {effortRollup ? (
+                        <EffortPill effort={effortRollup} unit={estimateUnit} />
+                    ) : editing === "estimate" ? (
+                        <EstimateEditor
+                            initial={task.estimate}
+                            unit={estimateUnit}
+                            onSave={(estimate) => { onUpdate(task.id, { estimate }); stopEditing(); }}
+                            onCancel={stopEditing}
+                        />
+                    ) : (
+                        <button
+                            className={`pill pill-btn estimate ${task.estimate ? "" : "add-on-hover"}`}
+                            onClick={() => setEditing("estimate")}
+                            title="クリックで見積を変更"
+                        >
+                            ⏱ {task.estimate ? formatEffort(task.estimate, estimateUnit) : "見積"}
                         </button>
                     )}
-                    {task.priority && <span className={`pill ${task.priority}`}>{prioLabel(task.priority)}</span>}
-                    {task.due && <span className={`pill due`}>期限 {fmtDate(task.due)}</span>}
+
+                    {task.due && (editing === "reminders" ? (
+                        <ReminderPicker
+                            value={task.reminders ?? []}
+                            onChange={(reminders) => onUpdate(task.id, { reminders: reminders.length ? reminders : undefined })}
+                            onClose={stopEditing}
+                        />
+                    ) : (
+                        <button
+                            className={`pill pill-btn reminder ${task.reminders?.length ? "" : "add-on-hover"}`}
+                            onClick={() => setEditing("reminders")}
+                            title="クリックでリマインドを設定"
+                        >
+                            🔔 {task.reminders?.length ? task.reminders.map(formatOffset).join("・") : "リマインド"}
+                        </button>
+                    ))}
+
+                    <button
+                        className={`pill pill-btn tracked ${trackedTotal ? "" : "add-on-hover"}`}
+                        onClick={() => onOpenSessions(task)}
+                        title={trackedTotal ? `作業記録（自分 ${formatDuration(trackedMs(task))}・サブタスク含む合計 ${formatDuration(trackedTotal)}）` : "作業記録を追加"}
+                    >
+                        🕒 {trackedTotal ? formatDuration(trackedTotal) : "記録"}
+                    </button>
+
+                    <button
+                        className={`pill pill-btn recurrence ${task.recurrence ? "" : "add-on-hover"}`}
+                        onClick={() => onOpenRecurrence(task)}
+                        title={task.recurrence ? "繰り返しの設定とこれまでの回" : "繰り返しを設定"}
+                    >
+                        🔁 {task.recurrence ? describeRecurrence(task.recurrence.rule) : "繰り返し"}
+                    </button>
+
+                    {editing === "tags" ? (
+                        <TagEditor
+                            initial={task.tags}
+                            suggestions={tagNames}
+                            onSave={(tags) => { onUpdate(task.id, { tags }); stopEditing(); }}
+                            onCancel={stopEditing}
+                        />
+                    ) : (
+                        <>
+                            {task.tags?.map((tag) => (
+                                <button
+                                    key={tag}
+                                    className="pill pill-btn tag-pill"
+                                    style={{ "--tag": tagColor(tag, tagColors) } as React.CSSProperties}
+                                    onClick={() => setEditing("tags")}
+                                    title="クリックでタグを編集"
+                                >
+                                    {tag}
+                                </button>
+                            ))}
+                            {!task.tags && (
+                                <button className="pill pill-btn add-on-hover" onClick={() => setEditing("tags")} title="タグを追加">
+                                    🏷 タグ
+                                </button>
+                            )}
+                        </>
+                    )}
                 </div>
 
                 <div className="card-actions">
+                    <button
+                        className={`icon-btn timer-btn ${timing ? "running" : ""}`}
+                        onClick={() => onToggleTimer(task.id)}
+                        aria-label={timing ? "計測を停止" : "計測を開始"}
+                        title={timing ? "計測を停止" : "作業時間の計測を開始（実行中の計測は停止）"}
+                    >
+                        {timing ? "⏹" : "▶"}
+                    </button>
+                    <button className="icon-btn" onClick={() => setAdding("child")} aria-label="子タスクを追加" title="子タスクを追加">＋</button>
+                    <button className="icon-btn" onClick={() => setAdding("sibling")} aria-label="同じ階層に追加" title="同じ階層に追加">⤵</button>
+                    <button className="icon-btn" onClick={() => onSaveTemplate(task.id)} aria-label="テンプレートとして保存" title="テンプレートとして保存">⧉</button>
                     <button className="icon-btn danger" onClick={() => onRemove(task.id)} aria-label="削除">✕</button>
                 </div>
 
+                {/* Where the note matches the search */}
+                {noteHit && (
+                    <button className="note-excerpt" onClick={() => onOpenModal(task)} title="メモを開く">
+                        📝 <Highlighted text={noteExcerpt(task.note ?? "", noteMatches[0])} words={searchWords} />
+                    </button>
+                )}
+
                 {/* Tooltip for hover display */}
-                {task.note && (
+                {task.note && editing === null && (
                     <span className="task-tooltip">{displayNote}</span>
                 )}
             </div>
 
-            {!task.collapsed && task.children.length > 0 && (
+            {!collapsed && task.children.length > 0 && (
                 <ul className="tree-level">
                     {task.children.map((c) => (
-                        <Node
-                            key={c.id}
-                            task={c}
-                            depth={depth + 1}
-                            onToggleDone={onToggleDone}
-                            onRemove={onRemove}
-                            onToggleCollapse={onToggleCollapse}
-                            onDropAsChild={onDropAsChild}
-                            onOpenModal={onOpenModal}
-                        />
+                        <Node key={c.id} task={c} depth={depth + 1} {...callbacks} />
                     ))}
                 </ul>
             )}
+
+            {adding && (
+                <QuickAddForm
+                    depth={adding === "child" ? depth + 1 : depth}
+                    placeholder={adding === "child" ? `"${task.text}" のサブタスク` : "同じ階層のタスク"}
+                    onSubmit={(draft) => (adding === "child" ? onAddChild(task.id, draft) : onAddSibling(task.id, draft))}
+                    onClose={stopAdding}
+                />
+            )}
         </li>
     );
 }
 
+/* inline editors */
+// Stays open after each submit so several tasks can be entered in a row; Escape closes it.
+function QuickAddForm({ depth, placeholder, onSubmit, onClose }: {
+    depth: number;
+    placeholder: string;
+    onSubmit: (draft: TaskDraft) => void;
+    onClose: () => void;
+}) {
+    const [text, setText] = useState("");
+    const [priority, setPriority] = useState<Priority>("medium");
+    const [due, setDue] = useState("");
+    const inputRef = useRef<HTMLInputElement>(null);
+
+    const submit: React.FormEventHandler<HTMLFormElement> = (e) => {
+        e.preventDefault();
+        const v = text.trim();
+        if (!v) return;
+        onSubmit({ text: v, priority, due: due || undefined });
+        setText("");
+        inputRef.current?.focus();
+    };
+
+    return (
+        <form
+            className="quick-add glass"
+            style={{ marginLeft: depth * 16 }}
+            onSubmit={submit}
+            onKeyDown={(e) => { if (e.key === "Escape") { e.preventDefault(); onClose(); } }}
+        >
+            <input
+                ref={inputRef}
+                className="input inline-input"
+                placeholder={placeholder}
+                value={text}
+                autoFocus
+                onChange={(e) => setText(e.target.value)}
+                aria-label="タスク本文"
+            />
+            <div className="segmented mini">
+                {(["low", "medium", "high"] as Priority[]).map((p) => (
+                    <button key={p} type="button" className={`seg-item ${priority === p ? "active" : ""} ${p}`} onClick={() => setPriority(p)}>
+                        {prioLabel(p)}
+                    </button>
+                ))}
+            </div>
+            <input className="input inline-input" type="date" value={due} onChange={(e) => setDue(e.target.value)} aria-label="期限" />
+            <button className="btn primary" type="submit">追加</button>
+            <button className="icon-btn" type="button" onClick={onClose} aria-label="閉じる">✕</button>
+        </form>
+    );
+}
+
+function TitleEditor({ initial, onSave, onCancel }: { initial: string; onSave: (text: string) => void; onCancel: () => void }) {
+    const [draft, setDraft] = useState(initial);
+    const [invalid, setInvalid] = useState(false);
+    const finished = useRef(false); // guards against the blur that follows Enter/Escape
+
+    // Enter saves (empty titles are rejected), Escape cancels, blurring saves when valid.
+    const save = () => {
+        if (finished.current) return true;
+        const v = draft.trim();
+        if (!v) { setInvalid(true); return false; }
+        finished.current = true;
+        if (v === initial) onCancel();
+        else onSave(v);
+        return true;
+    };
+    const cancel = () => {
+        if (finished.current) return;
+        finished.current = true;
+        onCancel();
+    };
+
+    return (
+        <input
+            className={`input inline-input ${invalid ? "invalid" : ""}`}
+            value={draft}
+            autoFocus
+            onFocus={(e) => e.target.select()}
+            onChange={(e) => { setDraft(e.target.value); setInvalid(false); }}
+            onKeyDown={(e) => {
+                if (e.key === "Enter" && !e.nativeEvent.isComposing) { e.preventDefault(); save(); }
+                else if (e.key === "Escape") { e.preventDefault(); cancel(); }
+            }}
+            onBlur={() => { if (!save()) cancel(); }}
+            aria-label="タスク名"
+            aria-invalid={invalid}
+            title={invalid ? "タスク名を入力してください" : undefined}
+        />
+    );
+}
+
+function PriorityPicker({ value, onPick, onCancel }: { value?: Priority; onPick: (p: Priority | undefined) => void; onCancel: () => void }) {
+    const ref = useRef<HTMLDivElement>(null);
+    useEffect(() => { ref.current?.querySelector("button")?.focus(); }, []);
+
+    return (
+        <div
+            ref={ref}
+            className="segmented mini"
+            onKeyDown={(e) => { if (e.key === "Escape") onCancel(); }}
+            onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as globalThis.Node | null)) onCancel(); }}
+        >
+            {(["low", "medium", "high"] as Priority[]).map((p) => (
+                <button key={p} type="button" className={`seg-item ${value === p ? "active" : ""} ${p}`} onClick={() => onPick(p)}>
+                    {prioLabel(p)}
+                </button>
+            ))}
+            <button type="button" className={`seg-item ${value ? "" : "active"}`} onClick={() => onPick(undefined)} title="優先度なし">
+                ー
+            </button>
+        </div>
+    );
+}
+
+// Date plus an optional time; clearing the date clears the time too. Start dates use it without the time.
+function DueEditor({ initial, initialTime, label = "期限", withTime = true, onSave, onCancel }: {
+    initial?: string;
+    initialTime?: string;
+    label?: string;
+    withTime?: boolean;
+    onSave: (due: string | undefined, dueTime: string | undefined) => void;
+    onCancel: () => void;
+}) {
+    const [draft, setDraft] = useState(initial ?? "");
+    const [time, setTime] = useState(initialTime ?? "");
+    const finished = useRef(false);
+    const finish = (f: () => void) => {
+        if (finished.current) return;
+        finished.current = true;
+        f();
+    };
+    const save = () => finish(() => {
+        const due = draft || undefined;
+        const dueTime = due && time ? time : undefined;
+        if (due === initial && dueTime === initialTime) onCancel();
+        else onSave(due, dueTime);
+    });
+    const inputProps = {
+        className: "input inline-input",
+        onKeyDown: (e: React.KeyboardEvent<HTMLInputElement>) => {
+            if (e.key === "Enter") { e.preventDefault(); save(); }
+            else if (e.key === "Escape") { e.preventDefault(); finish(onCancel); }
+        },
+        onBlur: (e: React.FocusEvent<HTMLInputElement>) => {
+            if (!e.currentTarget.parentElement?.contains(e.relatedTarget as globalThis.Node | null)) save();
+        },
+    };
+
+    return (
+        <span className="inline-date">
+            <input {...inputProps} type="date" value={draft} autoFocus onChange={(e) => setDraft(e.target.value)} aria-label={label} />
+            {withTime && (
+                <input {...inputProps} type="time" value={time} onChange={(e) => setTime(e.target.value)} aria-label={`${label}の時刻（任意）`} />
+            )}
+            <button type="button" className="icon-btn" onMouseDown={(e) => e.preventDefault()} onClick={() => finish(() => onSave(undefined, undefined))} title={`${label}を削除`}>✕</button>
+        </span>
+    );
+}
+
+// Toggles reminder offsets; every click is saved, leaving the picker closes it.
+function ReminderPicker({ value, onChange, onClose }: { value: number[]; onChange: (reminders: number[]) => void; onClose: () => void }) {
+    const ref = useRef<HTMLDivElement>(null);
+    useEffect(() => { ref.current?.querySelector("button")?.focus(); }, []);
+    const toggle = (m: number) => onChange(value.includes(m) ? value.filter((v) => v !== m) : [...value, m].sort((a, b) => b - a));
+
+    return (
+        <div
+            ref={ref}
+            className="segmented mini"
+            onKeyDown={(e) => { if (e.key === "Escape") onClose(); }}
+            onBlur={(e) => { if (!e.currentTarget.contains(e.relatedTarget as globalThis.Node | null)) onClose(); }}
+        >
+            {REMINDER_PRESETS.map((m) => (
+                <button key={m} type="button" className={`seg-item ${value.includes(m) ? "active" : ""}`} onClick={() => toggle(m)}>
+                    {formatOffset(m)}
+                </button>
+            ))}
+        </div>
+    );
+}
+
+// Planned effort in the configured unit; an empty field removes the estimate.
+function EstimateEditor({ initial, unit, onSave, onCancel }: {
+    initial?: number;
+    unit: EstimateUnit;
+    onSave: (estimate: number | undefined) => void;
+    onCancel: () => void;
+}) {
+    const [draft, setDraft] = useState(initial === undefined ? "" : String(initial));
+    const finished = useRef(false);
+    const finish = (f: () => void) => {
+        if (finished.current) return;
+        finished.current = true;
+        f();
+    };
+    const value = draft.trim() === "" ? undefined : Number(draft);
+    const invalid = value !== undefined && !(value > 0);
+    const save = () => {
+        if (invalid) return;
+        finish(() => (value === initial ? onCancel() : onSave(value)));
+    };
+
+    return (
+        <span className="inline-date">
+            <input
+                className={`input inline-input estimate-input ${invalid ? "invalid" : ""}`}
+                type="number"
+                min={0}
+                step={unit === "hours" ? 0.5 : 1}
+                value={draft}
+                autoFocus
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter") { e.preventDefault(); save(); }
+                    else if (e.key === "Escape") { e.preventDefault(); finish(onCancel); }
+                }}
+                onBlur={() => (invalid ? finish(onCancel) : save())}
+                aria-label={`見積（${unit === "hours" ? "時間" : "ポイント"}）`}
+            />
+            <span className="muted">{unit === "hours" ? "h" : "pt"}</span>
+        </span>
+    );
+}
+
+// Comma/space separated tag names; an empty field removes all tags.
+function TagEditor({ initial, suggestions, onSave, onCancel }: {
+    initial?: string[];
+    suggestions: string[];
+    onSave: (tags: string[] | undefined) => void;
+    onCancel: () => void;
+}) {
+    const [draft, setDraft] = useState(formatTagInput(initial));
+    const finished = useRef(false);
+    const finish = (f: () => void) => {
+        if (finished.current) return;
+        finished.current = true;
+        f();
+    };
+    const save = () => finish(() => {
+        const tags = parseTagInput(draft);
+        if (formatTagInput(tags) === formatTagInput(initial)) onCancel();
+        else onSave(tags);
+    });
+
+    return (
+        <>
+            <input
+                className="input inline-input tag-input"
+                value={draft}
+                autoFocus
+                list="tree-tag-suggestions"
+                placeholder="タグ1, タグ2"
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => {
+                    if (e.key === "Enter" && !e.nativeEvent.isComposing) { e.preventDefault(); save(); }
+                    else if (e.key === "Escape") { e.preventDefault(); finish(onCancel); }
+                }}
+                onBlur={save}
+                aria-label="タグ"
+            />
+            <datalist id="tree-tag-suggestions">
+                {suggestions.map((name) => <option key={name} value={name} />)}
+            </datalist>
+        </>
+    );
+}
+
 /* helpers */
+// Display-order index of the tree: visible ids (children of collapsed nodes excluded),
+// parent links and child id lists (key null = top level).
+function buildOutline(tasks: Task[], forceExpanded: boolean) {
+    const visible: string[] = [];
+    const parentOf = new Map<string, string | null>();
+    const childrenOf = new Map<string | null, string[]>();
+    const collapsed = new Set<string>();
+    const walk = (arr: Task[], parentId: string | null, shown: boolean) => {
+        childrenOf.set(parentId, arr.map((t) => t.id));
+        for (const t of arr) {
+            parentOf.set(t.id, parentId);
+            if (t.collapsed) collapsed.add(t.id);
+            if (shown) visible.push(t.id);
+            walk(t.children, t.id, shown && (!t.collapsed || forceExpanded));
+        }
+    };
+    walk(tasks, null, true);
+    return { visible, parentOf, childrenOf, collapsed };
+}
+
+type DropZone = "before" | "child" | "after";
+
+// The top and bottom quarter of a card insert next to it; the middle nests the task inside.
+function dropZoneAt(e: React.DragEvent<HTMLElement>): DropZone {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const y = e.clientY - rect.top;
+    if (y < rect.height * 0.25) return "before";
+    if (y > rect.height * 0.75) return "after";
+    return "child";
+}
 function prevent(e: React.DragEvent) { e.preventDefault(); }
 function handleRootDrop(e: React.DragEvent, onDropToRoot: (id: string) => void) {
     e.preventDefault();
     const draggedId = (e.dataTransfer && e.dataTransfer.getData("text/plain")) || "";
     if (draggedId) onDropToRoot(draggedId);
 }
+function Highlighted({ text, words }: { text: string; words: string[] }) {
+    const ranges = findMatches(text, words);
+    if (ranges.length === 0) return <>{text}</>;
+    const parts: React.ReactNode[] = [];
+    let at = 0;
+    ranges.forEach((r, i) => {
+        if (r.start > at) parts.push(text.slice(at, r.start));
+        parts.push(<mark key={i}>{text.slice(r.start, r.end)}</mark>);
+        at = r.end;
+    });
+    parts.push(text.slice(at));
+    return <>{parts}</>;
+}
+
+// About NOTE_CONTEXT characters either side of the first hit, on one line.
+const NOTE_CONTEXT = 20;
+function noteExcerpt(note: string, hit: TextRange): string {
+    const from = Math.max(0, hit.start - NOTE_CONTEXT);
+    const to = Math.min(note.length, hit.end + NOTE_CONTEXT);
+    return `${from > 0 ? "…" : ""}${note.slice(from, to).replace(/\s+/g, " ")}${to < note.length ? "…" : ""}`;
+}
+
+function ProgressPill({ done, total }: Progress) {
+    const percent = Math.round((done / total) * 100);
+    return (
+        <span className={`pill progress-pill ${done === total ? "complete" : ""}`} title={`サブタスク ${done}/${total} 完了（${percent}%）`}>
+            <span className="progress-track"><span className="progress-fill" style={{ width: `${percent}%` }} /></span>
+            {done}/{total}
+        </span>
+    );
+}
+function EffortPill({ effort, unit }: { effort: Effort; unit: EstimateUnit }) {
+    return (
+        <span
+            className={`pill effort-pill ${effort.remaining === 0 ? "complete" : ""}`}
+            title={`配下の見積：残り ${formatEffort(effort.remaining, unit)}（未完了のみ）／合計 ${formatEffort(effort.total, unit)}`}
+        >
+            ⏱ 残り {formatEffort(effort.remaining, unit)} / {formatEffort(effort.total, unit)}
+        </span>
+    );
+}
 function prioLabel(p: NonNullable<Task["priority"]>) {
     return p === "low" ? "低" : p === "medium" ? "中" : "高";
 }
@@ -201,15 +1015,6 @@ function fmtDate(iso: string) {
         return `${d.getFullYear()}/${d.getMonth() + 1}/${d.getDate()}`;
     } catch { return iso; }
 }
-function filterTasks(tasks: Task[], pred: (t: Task) => boolean): Task[] {
-    const visit = (arr: Task[]): Task[] =>
-        arr
-            .map((t) => ({ ...t, children: visit(t.children) }))
-            .filter(predOrHasDescendant);
-    const predOrHasDescendant = (t: Task): boolean =>
-        pred(t) || t.children.some(predOrHasDescendant);
-    return visit(tasks);
-}
 
 function getCharWidth(char: string): number {
     const charCode = char.charCodeAt(0);
@@ -0,0 +1,107 @@
+// src/components/TemplateModal.tsx
+import type { Priority, Template, TemplateNode } from "../types";
+import { countTemplateNodes, parseOffset } from "../utils/templates";
+
+interface TemplateModalProps {
+    templates: Template[];
+    onUpdate: (template: Template) => void;
+    onRemove: (id: string) => void;
+    onClose: () => void;
+}
+
+export const TemplateModal: React.FC<TemplateModalProps> = ({ templates, onUpdate, onRemove, onClose }) => {
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>テンプレート管理</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    <p className="muted">構造表示の「⧉」で任意のタスクをサブタスクごとテンプレートに保存できます。期限は使用日からの日数（例: +7d）で指定します。</p>
+                    {templates.length === 0 && <p className="muted">テンプレートはまだありません。</p>}
+                    {templates.map((template) => (
+                        <details key={template.id} className="template-item">
+                            <summary>
+                                {template.name} <span className="muted">（{countTemplateNodes(template.root)} 件）</span>
+                            </summary>
+                            <div className="form-row">
+                                <label className="label">テンプレート名</label>
+                                <input
+                                    className="input"
+                                    value={template.name}
+                                    onChange={(e) => onUpdate({ ...template, name: e.target.value })}
+                                    onBlur={() => { if (!template.name.trim()) onUpdate({ ...template, name: template.root.text }); }}
+                                />
+                            </div>
+                            <TemplateNodeEditor node={template.root} onChange={(root) => onUpdate({ ...template, root })} />
+                            <div className="form-actions">
+                                <button
+                                    className="btn ghost danger-text"
+                                    onClick={() => { if (window.confirm(`テンプレート "${template.name}" を削除しますか？`)) onRemove(template.id); }}
+                                >
+                                    削除
+                                </button>
+                            </div>
+                        </details>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+function TemplateNodeEditor({ node, onChange, onRemove }: { node: TemplateNode; onChange: (node: TemplateNode) => void; onRemove?: () => void }) {
+    const offsetInvalid = !!node.dueOffset && parseOffset(node.dueOffset) === null;
+    const setChild = (i: number, child: TemplateNode) => onChange({ ...node, children: node.children.map((c, j) => (j === i ? child : c)) });
+    const removeChild = (i: number) => onChange({ ...node, children: node.children.filter((_, j) => j !== i) });
+
+    return (
+        <div className="template-node">
+            <div className="template-node-row">
+                <input
+                    className={`input inline-input ${node.text.trim() ? "" : "invalid"}`}
+                    value={node.text}
+                    placeholder="タスク名"
+                    onChange={(e) => onChange({ ...node, text: e.target.value })}
+                    aria-label="タスク名"
+                />
+                <select
+                    className="input inline-input"
+                    value={node.priority ?? ""}
+                    onChange={(e) => onChange({ ...node, priority: (e.target.value || undefined) as Priority | undefined })}
+                    aria-label="優先度"
+                >
+                    <option value="">優先度なし</option>
+                    <option value="low">低</option>
+                    <option value="medium">中</option>
+                    <option value="high">高</option>
+                </select>
+                <input
+                    className={`input inline-input offset-input ${offsetInvalid ? "invalid" : ""}`}
+                    value={node.dueOffset ?? ""}
+                    placeholder="期限 +7d"
+                    onChange={(e) => onChange({ ...node, dueOffset: e.target.value || undefined })}
+                    aria-label="期限（使用日からの日数）"
+                    title={offsetInvalid ? "+7d や -1d の形式で入力してください" : undefined}
+                />
+                <button className="icon-btn" onClick={() => onChange({ ...node, children: [...node.children, { text: "", children: [] }] })} title="子を追加">＋</button>
+                {onRemove && <button className="icon-btn danger" onClick={onRemove} title="削除">✕</button>}
+            </div>
+            <input
+                className="input inline-input template-note"
+                value={node.note ?? ""}
+                placeholder="メモ"
+                onChange={(e) => onChange({ ...node, note: e.target.value || undefined })}
+                aria-label="メモ"
+            />
+            {node.children.length > 0 && (
+                <div className="template-children">
+                    {node.children.map((child, i) => (
+                        <TemplateNodeEditor key={i} node={child} onChange={(c) => setChild(i, c)} onRemove={() => removeChild(i)} />
+                    ))}
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,36 @@
+// src/components/TimerBar.tsx
+import { useEffect, useState } from "react";
+import type { RunningTimer, TimerSettings } from "../types";
+import { formatClock, phaseLengthMs } from "../utils/timeTracking";
+
+type Props = {
+    timer: RunningTimer;
+    title: string;
+    settings: TimerSettings;
+    onStop: () => void;
+};
+
+// The running timer, shown above both screens. Pomodoro phases count down, the plain stopwatch counts up.
+// It keeps its own once-a-second clock so only the bar re-renders while time passes.
+export default function TimerBar({ timer, title, settings, onStop }: Props) {
+    const [now, setNow] = useState(() => Date.now());
+    useEffect(() => {
+        const interval = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(interval);
+    }, []);
+
+    // A phase that started after the last tick shows as 0 rather than a negative time.
+    const elapsed = Math.max(0, now - timer.startedAt);
+    const length = phaseLengthMs(timer, settings);
+    const onBreak = timer.pomodoro?.phase === "break";
+
+    return (
+        <div className={`timer-bar glass ${onBreak ? "on-break" : ""}`} role="timer" aria-live="off">
+            <span className="timer-icon">{timer.pomodoro ? (onBreak ? "☕" : "🍅") : "⏱"}</span>
+            <span className="timer-title">{onBreak ? `休憩中（${title}）` : title}</span>
+            {timer.pomodoro && <span className="muted">{timer.pomodoro.cycle}回目 {onBreak ? "休憩" : "作業"}・残り</span>}
+            <span className="timer-clock">{formatClock(length === null ? elapsed : length - elapsed)}</span>
+            <button className="btn ghost" onClick={onStop}>⏹ 停止</button>
+        </div>
+    );
+}
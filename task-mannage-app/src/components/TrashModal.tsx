@@ -0,0 +1,96 @@
+// src/components/TrashModal.tsx
+import type { Task, TrashItem } from "../types";
+import { countTasks, findPath } from "../utils/tree";
+
+interface TrashModalProps {
+    items: TrashItem[];
+    tasks: Task[];
+    retentionDays: number;
+    onChangeRetention: (days: number) => void;
+    onRestore: (item: TrashItem) => void;
+    onPurge: (item: TrashItem) => void;
+    onEmpty: () => void;
+    onClose: () => void;
+}
+
+export const TrashModal: React.FC<TrashModalProps> = ({
+    items,
+    tasks,
+    retentionDays,
+    onChangeRetention,
+    onRestore,
+    onPurge,
+    onEmpty,
+    onClose,
+}) => {
+    const describeOrigin = (item: TrashItem) => {
+        if (item.parentId === null) return "最上位";
+        const path = findPath(tasks, item.parentId);
+        return path ? path.map((t) => t.text).join(" > ") : "親は削除済み（最上位に復元）";
+    };
+
+    return (
+        <div className="modal-overlay" onClick={onClose}>
+            <div className="modal-content glass" onClick={(e) => e.stopPropagation()}>
+                <div className="modal-header">
+                    <h3>ゴミ箱</h3>
+                    <button className="icon-btn danger" onClick={onClose}>✕</button>
+                </div>
+                <div className="modal-body">
+                    {items.length === 0 ? (
+                        <p className="muted">ゴミ箱は空です。</p>
+                    ) : (
+                        <ul className="trash-list">
+                            {items.map((item) => {
+                                const descendants = countTasks(item.task.children);
+                                return (
+                                    <li key={item.task.id} className="trash-item">
+                                        <div>
+                                            <strong>{item.task.text}</strong>
+                                            {descendants > 0 && <span className="muted">（子タスク {descendants} 件）</span>}
+                                            <div className="muted trash-meta">
+                                                元の場所: {describeOrigin(item)} ／ 削除: {item.deletedAt.toLocaleString()}
+                                            </div>
+                                        </div>
+                                        <div className="trash-actions">
+                                            <button className="btn ghost" onClick={() => onRestore(item)}>復元</button>
+                                            <button
+                                                className="btn ghost"
+                                                onClick={() => { if (window.confirm(`"${item.task.text}" を完全に削除しますか？`)) onPurge(item); }}
+                                            >
+                                                完全に削除
+                                            </button>
+                                        </div>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    )}
+
+                    <div className="form-actions" style={{ marginTop: '20px' }}>
+                        <label className="muted">
+                            <input
+                                className="input days-input"
+                                type="number"
+                                min={1}
+                                value={retentionDays}
+                                onChange={(e) => {
+                                    const days = parseInt(e.target.value, 10);
+                                    if (days > 0) onChangeRetention(days);
+                                }}
+                            />
+                            日より古いものは自動で削除
+                        </label>
+                        <button
+                            className="btn ghost"
+                            disabled={items.length === 0}
+                            onClick={() => { if (window.confirm("ゴミ箱を空にしますか？この操作は元に戻せません。")) onEmpty(); }}
+                        >
+                            ゴミ箱を空にする
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,100 @@
+// src/hooks/useReminders.ts
+import { useCallback, useEffect, useMemo, useState } from "react";
+import type { ReminderState, Task } from "../types";
+import { loadReminderState, saveReminderState } from "../utils/storage";
+import { describeReminder, DueReminder, pendingReminders, pruneReminderState, remindersDue } from "../utils/reminders";
+
+const CHECK_INTERVAL_MS = 30_000;
+
+const notificationsSupported = () => typeof window !== "undefined" && "Notification" in window;
+
+/**
+ * Fires deadline reminders while the app is open. Delivered and snoozed reminders are persisted, so a reload
+ * neither repeats them nor loses a snooze, and reminders that came due while the app was closed fire on load.
+ * Reminders go to the Notification API when permitted; otherwise (and when a notification is clicked) they show
+ * as in-app toasts, which is where they can be snoozed.
+ * `ready` should turn true once the task tree has loaded, so nothing is pruned against an empty tree.
+ */
+export function useReminders(tasks: Task[], defaultDueTime: string, ready: boolean) {
+    const [state, setState] = useState<ReminderState>({ fired: [], snoozed: {} });
+    const [loaded, setLoaded] = useState(false);
+    const [toasts, setToasts] = useState<DueReminder[]>([]);
+    const [permission, setPermission] = useState<NotificationPermission | "unsupported">(
+        notificationsSupported() ? Notification.permission : "unsupported"
+    );
+
+    useEffect(() => {
+        let cancelled = false;
+        loadReminderState()
+            .then((saved) => { if (!cancelled) { setState(saved); setLoaded(true); } })
+            .catch((error) => console.error("Failed to load reminders:", error));
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (loaded) saveReminderState(state);
+    }, [state, loaded]);
+
+    const active = loaded && ready;
+    const pending = useMemo(
+        () => (active ? pendingReminders(tasks, defaultDueTime, state) : []),
+        [active, tasks, defaultDueTime, state]
+    );
+
+    const showToast = useCallback((r: DueReminder) => {
+        setToasts((prev) => [...prev.filter((t) => t.key !== r.key), r]);
+    }, []);
+
+    // Checks right away (catching up on missed reminders) and then every CHECK_INTERVAL_MS.
+    useEffect(() => {
+        if (!active) return;
+        const check = () => {
+            const due = remindersDue(pending, Date.now());
+            if (due.length === 0) return;
+            setState((prev) => ({ ...prev, fired: [...prev.fired, ...due.map((r) => r.key)] }));
+            due.forEach((r) => {
+                if (!notificationsSupported() || Notification.permission !== "granted") {
+                    showToast(r);
+                    return;
+                }
+                // The constructor throws where only service worker notifications are allowed (e.g. Chrome on Android).
+                try {
+                    const n = new Notification(`⏰ ${r.title}`, { body: describeReminder(r), tag: r.key });
+                    n.onclick = () => { window.focus(); showToast(r); n.close(); };
+                } catch (error) {
+                    console.warn("Notification failed, showing the reminder in the page instead:", error);
+                    showToast(r);
+                }
+            });
+        };
+        const first = setTimeout(check, 0);
+        const timer = setInterval(check, CHECK_INTERVAL_MS);
+        return () => { clearTimeout(first); clearInterval(timer); };
+    }, [active, pending, showToast]);
+
+    // Forget reminders of tasks that were completed, deleted or rescheduled.
+    useEffect(() => {
+        if (!active) return;
+        const pruned = pruneReminderState(state, tasks, defaultDueTime);
+        if (pruned === state) return;
+        const timer = setTimeout(() => setState(pruned));
+        return () => clearTimeout(timer);
+    }, [active, state, tasks, defaultDueTime]);
+
+    const snooze = useCallback((key: string, minutes: number) => {
+        setState((prev) => ({
+            fired: prev.fired.filter((k) => k !== key),
+            snoozed: { ...prev.snoozed, [key]: Date.now() + minutes * 60_000 },
+        }));
+        setToasts((prev) => prev.filter((t) => t.key !== key));
+    }, []);
+
+    const dismiss = useCallback((key: string) => setToasts((prev) => prev.filter((t) => t.key !== key)), []);
+
+    const requestPermission = useCallback(() => {
+        if (!notificationsSupported()) return;
+        Notification.requestPermission().then(setPermission);
+    }, []);
+
+    return { toasts, snooze, dismiss, permission, requestPermission };
+}
@@ -0,0 +1,27 @@
+// src/hooks/useSettings.ts
+import { useCallback, useEffect, useState } from "react";
+import type { Settings } from "../types";
+import { DEFAULT_SETTINGS, loadSettings, saveSettings } from "../utils/storage";
+
+export function useSettings() {
+    const [settings, setSettings] = useState<Settings>(DEFAULT_SETTINGS);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadSettings()
+            .then((s) => { if (!cancelled) { setSettings(s); setLoaded(true); } })
+            .catch((error) => console.error("Failed to load settings:", error));
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (loaded) saveSettings(settings);
+    }, [settings, loaded]);
+
+    const updateSettings = useCallback((patch: Partial<Settings>) => {
+        setSettings((prev) => ({ ...prev, ...patch }));
+    }, []);
+
+    return { settings, updateSettings };
+}
@@ -0,0 +1,39 @@
+// src/hooks/useTagColors.ts
+import { useCallback, useEffect, useState } from "react";
+import { loadTagColors, saveTagColors } from "../utils/storage";
+
+export function useTagColors() {
+    const [colors, setColors] = useState<Record<string, string>>({});
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadTagColors()
+            .then((saved) => { if (!cancelled) { setColors(saved); setLoaded(true); } })
+            .catch((error) => console.error("Failed to load tag colors:", error));
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (loaded) saveTagColors(colors);
+    }, [colors, loaded]);
+
+    const setColor = useCallback((name: string, color: string) => setColors((prev) => ({ ...prev, [name]: color })), []);
+
+    // A renamed tag keeps its color; when merging into a tag that already has one, the target's color wins.
+    const renameColor = useCallback((from: string, to: string) => {
+        setColors((prev) => {
+            const { [from]: color, ...rest } = prev;
+            return color && !rest[to] ? { ...rest, [to]: color } : rest;
+        });
+    }, []);
+
+    const removeColor = useCallback((name: string) => {
+        setColors((prev) => {
+            const { [name]: _removed, ...rest } = prev;
+            return rest;
+        });
+    }, []);
+
+    return { colors, setColor, renameColor, removeColor };
+}
@@ -0,0 +1,81 @@
+// src/hooks/useTaskHistory.ts
+// Undo/redo history around the task tree. Trees are immutable, so each entry is just a snapshot reference.
+import { useCallback, useState } from "react";
+import type { Task } from "../types";
+import { flattenTasks, mapTasks, sameTree } from "../utils/tree";
+
+export const HISTORY_LIMIT = 100;
+
+type Entry = { label: string; tasks: Task[] };
+
+type HistoryState = {
+    past: Entry[];    // most recent last; label describes the change that led away from `tasks`
+    present: Task[];
+    future: Entry[];  // most recent first
+};
+
+export type Updater = (prev: Task[]) => Task[];
+// A label may depend on the tree before the change, e.g. to look up task titles by id.
+export type Label = string | ((prev: Task[]) => string);
+
+// Collapsing is view state applied through `update`, so snapshots hold whatever it was back then.
+// A restored snapshot takes the current collapsed state of every task that still exists.
+function withCollapsedFrom(target: Task[], current: Task[]): Task[] {
+    const collapsed = new Map(flattenTasks(current).map((t) => [t.id, t.collapsed]));
+    return mapTasks(target, (t) => (collapsed.has(t.id) ? { ...t, collapsed: collapsed.get(t.id) } : t));
+}
+
+export function useTaskHistory(limit: number = HISTORY_LIMIT) {
+    const [state, setState] = useState<HistoryState>({ past: [], present: [], future: [] });
+
+    /** Applies an undoable change. Nothing is recorded when the updater leaves every task as it was. */
+    const commit = useCallback((label: Label, updater: Updater) => {
+        setState((s) => {
+            const next = updater(s.present);
+            if (sameTree(next, s.present)) return s;
+            const text = typeof label === "function" ? label(s.present) : label;
+            const past = [...s.past, { label: text, tasks: s.present }].slice(-limit);
+            return { past, present: next, future: [] };
+        });
+    }, [limit]);
+
+    /** Applies a change without recording it (view state such as collapsing). */
+    const update = useCallback((updater: Updater) => {
+        setState((s) => {
+            const next = updater(s.present);
+            return next === s.present ? s : { ...s, present: next };
+        });
+    }, []);
+
+    /** Replaces the tree and clears the history (e.g. after loading from storage). */
+    const reset = useCallback((tasks: Task[]) => {
+        setState({ past: [], present: tasks, future: [] });
+    }, []);
+
+    const undo = useCallback(() => {
+        setState((s) => {
+            const last = s.past[s.past.length - 1];
+            if (!last) return s;
+            return { past: s.past.slice(0, -1), present: withCollapsedFrom(last.tasks, s.present), future: [{ label: last.label, tasks: s.present }, ...s.future] };
+        });
+    }, []);
+
+    const redo = useCallback(() => {
+        setState((s) => {
+            const [first, ...rest] = s.future;
+            if (!first) return s;
+            return { past: [...s.past, { label: first.label, tasks: s.present }], present: withCollapsedFrom(first.tasks, s.present), future: rest };
+        });
+    }, []);
+
+    return {
+        tasks: state.present,
+        commit,
+        update,
+        reset,
+        undo,
+        redo,
+        undoLabel: state.past[state.past.length - 1]?.label as string | undefined,
+        redoLabel: state.future[0]?.label as string | undefined,
+    };
+}
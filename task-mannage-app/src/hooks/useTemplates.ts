@@ -0,0 +1,30 @@
+// src/hooks/useTemplates.ts
+import { useCallback, useEffect, useState } from "react";
+import type { Template } from "../types";
+import { loadTemplates, saveTemplates } from "../utils/storage";
+import { defaultTemplates } from "../utils/templates";
+
+export function useTemplates() {
+    const [templates, setTemplates] = useState<Template[]>([]);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadTemplates()
+            .then((saved) => { if (!cancelled) { setTemplates(saved ?? defaultTemplates()); setLoaded(true); } })
+            .catch((error) => console.error("Failed to load templates:", error));
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (loaded) saveTemplates(templates);
+    }, [templates, loaded]);
+
+    const addTemplate = useCallback((template: Template) => setTemplates((prev) => [...prev, template]), []);
+    const updateTemplate = useCallback((template: Template) => {
+        setTemplates((prev) => prev.map((t) => (t.id === template.id ? template : t)));
+    }, []);
+    const removeTemplate = useCallback((id: string) => setTemplates((prev) => prev.filter((t) => t.id !== id)), []);
+
+    return { templates, addTemplate, updateTemplate, removeTemplate };
+}
@@ -0,0 +1,70 @@
+// src/hooks/useTimer.ts
+import { useCallback, useEffect, useRef, useState } from "react";
+import type { RunningTimer, TimerSettings, TimeSession } from "../types";
+import { loadTimer, saveTimer } from "../utils/storage";
+import { advancePomodoro, MIN_SESSION_MS, phaseLengthMs } from "../utils/timeTracking";
+
+/**
+ * The single running work timer. It is persisted, so a reload picks it up where it was;
+ * stopping it (or finishing a Pomodoro work phase) hands the session to `onSession`.
+ * `ready` should turn true once the task tree has loaded, so no session is recorded into an empty tree.
+ */
+export function useTimer(settings: TimerSettings, onSession: (taskId: string, session: TimeSession) => void, ready: boolean) {
+    const [timer, setTimer] = useState<RunningTimer | null>(null);
+    const [loaded, setLoaded] = useState(false);
+    const onSessionRef = useRef(onSession);
+    useEffect(() => { onSessionRef.current = onSession; });
+
+    useEffect(() => {
+        let cancelled = false;
+        loadTimer()
+            .then((saved) => { if (!cancelled) { setTimer(saved); setLoaded(true); } })
+            .catch((error) => console.error("Failed to load the timer:", error));
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (loaded) saveTimer(timer);
+    }, [timer, loaded]);
+
+    const record = useCallback((taskId: string, start: number, end: number) => {
+        if (end - start >= MIN_SESSION_MS) onSessionRef.current(taskId, { start: new Date(start), end: new Date(end) });
+    }, []);
+
+    // Wakes up when the current Pomodoro phase ends (right away if it ended while the app was closed).
+    // The running clock itself lives in TimerBar, so nothing here re-renders the app every second.
+    useEffect(() => {
+        if (!timer?.pomodoro || !ready) return;
+        const advance = () => {
+            const { timer: next, sessions } = advancePomodoro(timer, settings, Date.now());
+            if (next === timer) return;
+            sessions.forEach((s) => onSessionRef.current(timer.taskId, s));
+            setTimer(next);
+            if (!next?.pomodoro || !("Notification" in window) || Notification.permission !== "granted") return;
+            // The constructor throws where only service worker notifications are allowed; the bar still shows the phase.
+            try {
+                new Notification(next.pomodoro.phase === "break" ? "☕ 休憩の時間です" : "🍅 作業を再開しましょう", { tag: "pomodoro" });
+            } catch (error) {
+                console.warn("Pomodoro notification failed:", error);
+            }
+        };
+        const handle = setTimeout(advance, Math.max(0, timer.startedAt + phaseLengthMs(timer, settings)! - Date.now()));
+        return () => clearTimeout(handle);
+    }, [timer, ready, settings]);
+
+    const stop = useCallback(() => {
+        if (!timer) return;
+        if (!timer.pomodoro || timer.pomodoro.phase === "work") record(timer.taskId, timer.startedAt, Date.now());
+        setTimer(null);
+    }, [timer, record]);
+
+    // Starting a timer stops the one already running; toggling the running task stops it.
+    const toggle = useCallback((taskId: string) => {
+        const running = timer?.taskId === taskId;
+        stop();
+        if (running) return;
+        setTimer({ taskId, startedAt: Date.now(), pomodoro: settings.pomodoro ? { phase: "work", cycle: 1 } : undefined });
+    }, [timer, stop, settings.pomodoro]);
+
+    return { timer, toggle, stop };
+}
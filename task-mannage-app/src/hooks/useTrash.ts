@@ -0,0 +1,46 @@
+// src/hooks/useTrash.ts
+import { useCallback, useEffect, useState } from "react";
+import type { TrashItem } from "../types";
+import { loadTrash, saveTrash } from "../utils/storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Persistent trash of deleted subtrees. Items older than `retentionDays` are purged automatically. */
+export function useTrash(retentionDays: number) {
+    const [items, setItems] = useState<TrashItem[]>([]);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadTrash()
+            .then((saved) => { if (!cancelled) { setItems(saved); setLoaded(true); } })
+            .catch((error) => console.error("Failed to load trash:", error));
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (loaded) saveTrash(items);
+    }, [items, loaded]);
+
+    useEffect(() => {
+        if (!loaded) return;
+        const cutoff = Date.now() - retentionDays * DAY_MS;
+        setItems((prev) => {
+            const kept = prev.filter((item) => item.deletedAt.getTime() >= cutoff);
+            return kept.length === prev.length ? prev : kept;
+        });
+    }, [loaded, retentionDays]);
+
+    // Newest first; a task deleted again replaces its older entry.
+    const add = useCallback((item: TrashItem) => {
+        setItems((prev) => [item, ...prev.filter((i) => i.task.id !== item.task.id)]);
+    }, []);
+
+    const remove = useCallback((taskId: string) => {
+        setItems((prev) => prev.filter((i) => i.task.id !== taskId));
+    }, []);
+
+    const clear = useCallback(() => setItems([]), []);
+
+    return { items, add, remove, clear };
+}
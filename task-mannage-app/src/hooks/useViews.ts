@@ -0,0 +1,27 @@
+// src/hooks/useViews.ts
+import { useCallback, useEffect, useState } from "react";
+import type { SmartView } from "../types";
+import { loadViews, saveViews } from "../utils/storage";
+
+// User-saved views; the built-in ones are not stored.
+export function useViews() {
+    const [views, setViews] = useState<SmartView[]>([]);
+    const [loaded, setLoaded] = useState(false);
+
+    useEffect(() => {
+        let cancelled = false;
+        loadViews()
+            .then((saved) => { if (!cancelled) { setViews(saved); setLoaded(true); } })
+            .catch((error) => console.error("Failed to load views:", error));
+        return () => { cancelled = true; };
+    }, []);
+
+    useEffect(() => {
+        if (loaded) saveViews(views);
+    }, [views, loaded]);
+
+    const addView = useCallback((view: SmartView) => setViews((prev) => [...prev, view]), []);
+    const removeView = useCallback((id: string) => setViews((prev) => prev.filter((v) => v.id !== id)), []);
+
+    return { views, addView, removeView };
+}
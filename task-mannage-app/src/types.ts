@@ -8,10 +8,147 @@ export type Task = {
     collapsed?: boolean;
     children: Task[];
     priority?: Priority;
+    start?: string; // ISO date the work is planned to begin
     due?: string;   // ISO-8601 date string (e.g., "2025-08-14")
+    dueTime?: string;     // "HH:mm", only meaningful together with due
+    reminders?: number[]; // minutes before the deadline, e.g. [1440, 120] = 1 day and 2 hours before
+    estimate?: number;    // planned effort, in Settings.estimateUnit
     note?: string;
+    tags?: string[]; // tag names; colors live in the tag registry
     createdAt: Date;
     completedAt?: Date; // Property to record the completion date and time
+    recurrence?: Recurrence;
+    sessions?: TimeSession[]; // tracked work, oldest first
+    blockedBy?: string[]; // ids of tasks that must be done first, anywhere in the tree
+};
+
+// One stretch of tracked work on a task.
+export type TimeSession = { start: Date; end: Date };
+
+// The timer currently running, persisted so it keeps counting across reloads. Only one runs at a time.
+export type RunningTimer = {
+    taskId: string;
+    startedAt: number; // epoch ms the current stretch (in Pomodoro mode: the current phase) began
+    pomodoro?: { phase: "work" | "break"; cycle: number };
+};
+
+// How a recurring task repeats. Weekdays are 0 (Sunday) to 6, as in Date.getDay().
+export type RecurrenceRule =
+    | { kind: "daily" }
+    | { kind: "weekdays" }
+    | { kind: "weekly"; days: number[] }
+    | { kind: "monthlyDate"; day: number }                 // 31 = the last day of every month
+    | { kind: "monthlyNth"; nth: number; weekday: number } // nth 1-4, or -1 for the last one
+    | { kind: "afterDone"; days: number };                 // counted from the day it is completed
+
+export type Recurrence = {
+    rule: RecurrenceRule;
+    seriesId: string;      // shared by all occurrences; links them into the series history
+    countInTitle?: boolean; // increment the number in the title for each occurrence ("第3回" -> "第4回")
+};
+
+// What the user enters to create a task.
+export type TaskDraft = {
+    text: string;
+    priority?: Priority;
+    start?: string;
+    due?: string;
+    dueTime?: string;
+    reminders?: number[];
+    estimate?: number;
+    note?: string;
+    tags?: string[];
+    recurrence?: Omit<Recurrence, "seriesId">;
+};
+
+// Fields that can be edited in place after a task is created.
+export type TaskPatch = Partial<Pick<Task, "text" | "priority" | "start" | "due" | "dueTime" | "reminders" | "estimate" | "note" | "tags" | "recurrence" | "sessions" | "blockedBy">>;
+
+// A deleted subtree kept in the trash together with where it used to be.
+export type TrashItem = {
+    task: Task;
+    parentId: string | null; // null = top level
+    index: number;           // position among its siblings
+    deletedAt: Date;
+};
+
+// A reusable subtree. Due dates are stored as offsets from the day the template is used ("+7d", "-1d").
+export type TemplateNode = {
+    text: string;
+    priority?: Priority;
+    note?: string;
+    tags?: string[];
+    estimate?: number;
+    dueOffset?: string;
+    children: TemplateNode[];
+};
+
+export type Template = {
+    id: string;
+    name: string;
+    root: TemplateNode;
+};
+
+// "manual" keeps the order of the children arrays, i.e. the hand-arranged order.
+export type SortKey = 'dueDate' | 'priority' | 'createdAt' | 'title' | 'completedAt' | 'progress' | 'effort' | 'manual';
+export type SortOrder = 'asc' | 'desc';
+
+// A secondary sort key, applied when the keys before it tie.
+export type SortRule = { key: Exclude<SortKey, 'manual'>; order: SortOrder };
+
+// Which levels of the tree get sorted.
+export type SortScope = { kind: 'all' } | { kind: 'top' } | { kind: 'subtree'; rootId: string };
+
+export type SortOptions = {
+    thenBy: SortRule[];
+    missing: 'first' | 'last'; // where tasks without a value for a key go (no due date, not completed, ...)
+    scope: SortScope;
+};
+
+// A saved combination of filter, search and sort. Sort is only changed when the view specifies one.
+export type SmartView = {
+    id: string;
+    name: string;
+    filterQuery: string;
+    tagFilter: string[];
+    search: string;
+    sortKey?: SortKey;
+    sortOrder?: SortOrder;
+    sortOptions?: SortOptions;
+};
+
+// What happens when a task with children is checked off.
+export type CompletionRules = {
+    autoCompleteParent: boolean;            // completing the last open child completes the parent
+    cascadeDown: boolean;                   // completing a parent completes all its descendants
+    openChildren: 'allow' | 'warn' | 'block'; // completing a parent that still has open descendants
+};
+
+export type Settings = {
+    trashRetentionDays: number; // trash items older than this are purged automatically
+    sortKey: SortKey;
+    sortOrder: SortOrder;
+    sortOptions: SortOptions;
+    completion: CompletionRules;
+    recentDays: number; // window of the built-in "最近完了" view
+    defaultDueTime: string; // "HH:mm" reminders count from when a due date has no time
+    estimateUnit: EstimateUnit;
+    timer: TimerSettings;
+};
+
+export type TimerSettings = {
+    pomodoro: boolean; // ▶ starts work/break cycles instead of a plain stopwatch
+    workMinutes: number;
+    breakMinutes: number;
+};
+
+export type EstimateUnit = "hours" | "points";
+
+// Delivered and snoozed reminders, persisted so a reload neither repeats nor drops them.
+// Keys identify one reminder of one deadline (see reminderKey), so changing the due date re-arms it.
+export type ReminderState = {
+    fired: string[];
+    snoozed: Record<string, number>; // key -> epoch ms it fires again
 };
 
 
@@ -0,0 +1,288 @@
+// src/utils/backup.ts
+// Versioned JSON export/import of the whole task tree.
+import type { Priority, Recurrence, RecurrenceRule, Task, TimeSession } from "../types";
+import { SCHEMA_VERSION, migrateTasks, serializeTasks } from "./storage";
+import { normalizeTags } from "./tags";
+import { mapTasks, newId } from "./tree";
+
+const BACKUP_FORMAT = "flow-mind-backup";
+
+type BackupFile = {
+    format: typeof BACKUP_FORMAT;
+    version: number;
+    exportedAt: string;
+    tasks: ReturnType<typeof serializeTasks>;
+};
+
+export type BackupIssue = {
+    path: string;      // e.g. "卒論 > 論文調査" or "[0].children[2]" when the node has no usable title
+    message: string;
+    skipped: boolean;  // true when the whole node (and its subtree) was dropped
+};
+
+export type BackupParseResult = {
+    tasks: Task[];
+    issues: BackupIssue[];
+    regeneratedIds: number;
+    exportedAt?: string;
+};
+
+export function downloadFile(content: string, filename: string, type: string) {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = filename;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+}
+
+export function exportBackup(tasks: Task[]) {
+    const file: BackupFile = {
+        format: BACKUP_FORMAT,
+        version: SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        tasks: serializeTasks(tasks),
+    };
+    const today = new Date().toISOString().slice(0, 10);
+    downloadFile(JSON.stringify(file, null, 2), `flow-mind-backup-${today}.json`, "application/json");
+}
+
+/**
+ * Parses and validates a backup file.
+ * Nodes without a usable title are dropped with their subtree; invalid optional fields are dropped individually.
+ * Ids that collide with `takenIds` or repeat inside the file are regenerated.
+ * Throws when the file is not a backup at all.
+ */
+export function parseBackup(json: string, takenIds: Set<string> = new Set()): BackupParseResult {
+    let data: unknown;
+    try {
+        data = JSON.parse(json);
+    } catch {
+        throw new Error("JSON として読み込めませんでした。");
+    }
+
+    let rawTasks: unknown[];
+    let version = 0;
+    let exportedAt: string | undefined;
+    if (Array.isArray(data)) {
+        rawTasks = data;
+    } else if (isObject(data) && Array.isArray(data.tasks)) {
+        rawTasks = data.tasks;
+        version = typeof data.version === "number" ? data.version : 0;
+        exportedAt = typeof data.exportedAt === "string" ? data.exportedAt : undefined;
+    } else {
+        throw new Error("バックアップ形式ではありません（tasks 配列が見つかりません）。");
+    }
+
+    if (version > SCHEMA_VERSION) {
+        throw new Error(`このバックアップは新しいバージョン (v${version}) で作成されています。アプリを更新してください。`);
+    }
+    // Validated field by field below, so it is not trusted to match StoredTask.
+    const migrated: unknown[] = migrateTasks(rawTasks, version);
+
+    const issues: BackupIssue[] = [];
+    const seen = new Set(takenIds);
+    let regeneratedIds = 0;
+    // Ids that clashed with the existing tree, so "blocked by" links inside the file can follow the renamed task.
+    const renamed = new Map<string, string>();
+
+    const visit = (nodes: unknown[], parentPath: string, indexPath: string): Task[] => {
+        const out: Task[] = [];
+        nodes.forEach((raw, i) => {
+            const at = `${indexPath}[${i}]`;
+            if (!isObject(raw)) {
+                issues.push({ path: parentPath ? `${parentPath} > ${at}` : at, message: "オブジェクトではありません", skipped: true });
+                return;
+            }
+            const title = typeof raw.text === "string" ? raw.text.trim() : "";
+            const path = joinPath(parentPath, title || at);
+            if (!title) {
+                issues.push({ path, message: "text（タイトル）がありません", skipped: true });
+                return;
+            }
+            const report = (message: string) => issues.push({ path, message, skipped: false });
+
+            let id = typeof raw.id === "string" && raw.id ? raw.id : "";
+            if (!id) report("id がないため新しく採番しました");
+            if (!id || seen.has(id)) {
+                const fresh = newId();
+                if (id) regeneratedIds++;
+                if (id && takenIds.has(id) && !renamed.has(id)) renamed.set(id, fresh);
+                id = fresh;
+            }
+            seen.add(id);
+
+            if (raw.done !== undefined && typeof raw.done !== "boolean") report("done が真偽値ではありません");
+            const done = raw.done === true;
+
+            let priority: Priority | undefined;
+            if (raw.priority !== undefined && raw.priority !== null) {
+                if (raw.priority === "low" || raw.priority === "medium" || raw.priority === "high") priority = raw.priority;
+                else report(`priority "${String(raw.priority)}" は無効です`);
+            }
+
+            let due: string | undefined;
+            if (raw.due !== undefined && raw.due !== null && raw.due !== "") {
+                if (typeof raw.due === "string" && isIsoDate(raw.due)) due = raw.due;
+                else report(`due "${String(raw.due)}" は YYYY-MM-DD 形式ではありません`);
+            }
+
+            let start: string | undefined;
+            if (raw.start !== undefined && raw.start !== null && raw.start !== "") {
+                if (typeof raw.start === "string" && isIsoDate(raw.start)) start = raw.start;
+                else report(`start "${String(raw.start)}" は YYYY-MM-DD 形式ではありません`);
+            }
+
+            let estimate: number | undefined;
+            if (raw.estimate !== undefined && raw.estimate !== null) {
+                if (typeof raw.estimate === "number" && raw.estimate > 0 && isFinite(raw.estimate)) estimate = raw.estimate;
+                else report("estimate（見積）が正の数ではありません");
+            }
+
+            let dueTime: string | undefined;
+            if (raw.dueTime !== undefined && raw.dueTime !== null && raw.dueTime !== "") {
+                if (typeof raw.dueTime === "string" && /^([01]\d|2[0-3]):[0-5]\d$/.test(raw.dueTime)) dueTime = raw.dueTime;
+                else report(`dueTime "${String(raw.dueTime)}" は HH:mm 形式ではありません`);
+            }
+
+            let reminders: number[] | undefined;
+            if (raw.reminders !== undefined && raw.reminders !== null) {
+                if (isArrayOf(raw.reminders, (m): m is number => isInt(m, 0, Infinity))) {
+                    reminders = raw.reminders.length ? [...new Set(raw.reminders)] : undefined;
+                } else report("reminders が 0 以上の整数（分）の配列ではありません");
+            }
+
+            let note: string | undefined;
+            if (raw.note !== undefined && raw.note !== null) {
+                if (typeof raw.note === "string") note = raw.note || undefined;
+                else report("note が文字列ではありません");
+            }
+
+            let tags: string[] | undefined;
+            if (raw.tags !== undefined && raw.tags !== null) {
+                if (isArrayOf(raw.tags, (tag): tag is string => typeof tag === "string")) {
+                    tags = normalizeTags(raw.tags);
+                } else report("tags が文字列の配列ではありません");
+            }
+
+            let createdAt = parseDate(raw.createdAt);
+            if (!createdAt) {
+                report("createdAt が無効なため現在時刻を設定しました");
+                createdAt = new Date();
+            }
+
+            let completedAt: Date | undefined;
+            if (raw.completedAt !== undefined && raw.completedAt !== null) {
+                completedAt = parseDate(raw.completedAt);
+                if (!completedAt) report("completedAt が無効です");
+            }
+
+            let recurrence: Recurrence | undefined;
+            if (raw.recurrence !== undefined && raw.recurrence !== null) {
+                recurrence = parseRecurrence(raw.recurrence);
+                if (!recurrence) report("recurrence（繰り返し）が無効です");
+            }
+
+            let sessions: TimeSession[] | undefined;
+            if (raw.sessions !== undefined && raw.sessions !== null) {
+                const parsed = isArrayOf(raw.sessions, isObject) ? raw.sessions.map(parseSession) : [undefined];
+                if (parsed.every((s): s is TimeSession => s !== undefined)) sessions = parsed.length ? parsed : undefined;
+                else report("sessions（作業記録）に無効な記録があります");
+            }
+
+            let blockedBy: string[] | undefined;
+            if (raw.blockedBy !== undefined && raw.blockedBy !== null) {
+                if (isArrayOf(raw.blockedBy, (b): b is string => typeof b === "string" && b !== "")) {
+                    blockedBy = raw.blockedBy.length ? [...new Set(raw.blockedBy)] : undefined;
+                } else report("blockedBy（依存関係）が id の配列ではありません");
+            }
+
+            let children: Task[] = [];
+            if (raw.children !== undefined && !Array.isArray(raw.children)) report("children が配列ではありません");
+            else if (Array.isArray(raw.children)) children = visit(raw.children, path, `${at}.children`);
+
+            out.push({
+                id,
+                text: title,
+                done,
+                collapsed: raw.collapsed === true ? true : undefined,
+                children,
+                priority,
+                start,
+                due,
+                dueTime: due ? dueTime : undefined,
+                reminders: due ? reminders : undefined,
+                estimate,
+                note,
+                tags,
+                createdAt,
+                completedAt: done ? completedAt : undefined,
+                recurrence,
+                sessions,
+                blockedBy,
+            });
+        });
+        return out;
+    };
+
+    const visited = visit(migrated, "", "");
+    const tasks = renamed.size === 0 ? visited : mapTasks(visited, (t) =>
+        t.blockedBy ? { ...t, blockedBy: t.blockedBy.map((b) => renamed.get(b) ?? b) } : t
+    );
+    return { tasks, issues, regeneratedIds, exportedAt };
+}
+
+function isObject(v: unknown): v is Record<string, unknown> {
+    return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+// Array.isArray alone would hand back any[]; the item guard keeps the elements typed.
+function isArrayOf<T>(v: unknown, item: (x: unknown) => x is T): v is T[] {
+    return Array.isArray(v) && v.every(item);
+}
+function isInt(n: unknown, min: number, max: number): n is number {
+    return typeof n === "number" && Number.isInteger(n) && n >= min && n <= max;
+}
+function isIsoDate(s: string): boolean {
+    return /^\d{4}-\d{2}-\d{2}$/.test(s) && !isNaN(new Date(s + "T00:00:00").getTime());
+}
+function parseDate(v: unknown): Date | undefined {
+    if (typeof v !== "string" && typeof v !== "number") return undefined;
+    const d = new Date(v);
+    return isNaN(d.getTime()) ? undefined : d;
+}
+function parseSession(v: unknown): TimeSession | undefined {
+    if (!isObject(v)) return undefined;
+    const start = parseDate(v.start);
+    const end = parseDate(v.end);
+    return start && end && end > start ? { start, end } : undefined;
+}
+function parseRecurrence(v: unknown): Recurrence | undefined {
+    if (!isObject(v) || typeof v.seriesId !== "string" || !v.seriesId || !isObject(v.rule)) return undefined;
+    const r = v.rule;
+    let rule: RecurrenceRule | undefined;
+    switch (r.kind) {
+        case "daily":
+        case "weekdays":
+            rule = { kind: r.kind };
+            break;
+        case "weekly":
+            if (isArrayOf(r.days, (d): d is number => isInt(d, 0, 6)) && r.days.length > 0) rule = { kind: "weekly", days: r.days };
+            break;
+        case "monthlyDate":
+            if (isInt(r.day, 1, 31)) rule = { kind: "monthlyDate", day: r.day };
+            break;
+        case "monthlyNth":
+            if (isInt(r.nth, -1, 4) && r.nth !== 0 && isInt(r.weekday, 0, 6)) rule = { kind: "monthlyNth", nth: r.nth, weekday: r.weekday };
+            break;
+        case "afterDone":
+            if (isInt(r.days, 1, 3650)) rule = { kind: "afterDone", days: r.days };
+            break;
+    }
+    return rule && { rule, seriesId: v.seriesId, countInTitle: v.countInTitle === true ? true : undefined };
+}
+function joinPath(parent: string, name: string) {
+    return parent ? `${parent} > ${name}` : name;
+}
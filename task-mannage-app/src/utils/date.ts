@@ -0,0 +1,33 @@
+// src/utils/date.ts
+// Helpers for the date-only ISO strings used by Task.due ("2025-08-14"), always in local time.
+
+function pad(n: number) { return String(n).padStart(2, "0"); }
+
+export function toIsoDate(d: Date): string {
+    return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+export function parseIsoDate(iso: string): Date {
+    return new Date(iso + "T00:00:00");
+}
+
+export function addDays(iso: string, days: number): string {
+    const d = parseIsoDate(iso);
+    d.setDate(d.getDate() + days);
+    return toIsoDate(d);
+}
+
+// The Sunday closing the week (Monday to Sunday) that contains `iso`.
+export function endOfWeek(iso: string): string {
+    const day = parseIsoDate(iso).getDay();
+    return addDays(iso, (7 - day) % 7);
+}
+
+export function today(): string {
+    return toIsoDate(new Date());
+}
+
+// "2025-08-14T09:30", the value format of <input type="datetime-local">.
+export function toLocalDateTime(d: Date): string {
+    return `${toIsoDate(d)}T${pad(d.getHours())}:${pad(d.getMinutes())}`;
+}
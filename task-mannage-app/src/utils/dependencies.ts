@@ -0,0 +1,73 @@
+// src/utils/dependencies.ts
+// "Blocked by" links between arbitrary tasks, independent of the parent/child hierarchy.
+// A link pointing at a task that no longer exists (e.g. one in the trash) is ignored rather than removed,
+// so restoring that task brings the link back.
+import type { Task } from "../types";
+import { findById, findPath, flattenTasks, isDescendant } from "./tree";
+
+export function blockersOf(tasks: Task[], task: Task): Task[] {
+    return (task.blockedBy ?? []).map((id) => findById(tasks, id)).filter((t): t is Task => !!t);
+}
+
+export function openBlockers(tasks: Task[], task: Task): Task[] {
+    return blockersOf(tasks, task).filter((t) => !t.done);
+}
+
+/** Tasks that list `id` as a blocker. */
+export function dependentsOf(tasks: Task[], id: string): Task[] {
+    return flattenTasks(tasks).filter((t) => t.blockedBy?.includes(id));
+}
+
+/** Open blockers of every open task that is still waiting on something, keyed by task id. */
+export function buildBlockedMap(tasks: Task[]): Map<string, Task[]> {
+    const all = flattenTasks(tasks);
+    const byId = new Map(all.map((t) => [t.id, t]));
+    const map = new Map<string, Task[]>();
+    for (const t of all) {
+        if (t.done || !t.blockedBy?.length) continue;
+        const open = t.blockedBy.map((id) => byId.get(id)).filter((b): b is Task => !!b && !b.done);
+        if (open.length) map.set(t.id, open);
+    }
+    return map;
+}
+
+/**
+ * The chain of "blocked by" links leading from `fromId` to `toId` (both included), or null when there is none.
+ * When `fromId` already waits on `toId` this way, making `fromId` a blocker of `toId` would close a cycle.
+ */
+export function dependencyPath(tasks: Task[], fromId: string, toId: string): Task[] | null {
+    const byId = new Map(flattenTasks(tasks).map((t) => [t.id, t]));
+    const start = byId.get(fromId);
+    if (!start) return null;
+    const seen = new Set([fromId]);
+    const queue: Task[][] = [[start]];
+    while (queue.length) {
+        const path = queue.shift()!;
+        const last = path[path.length - 1];
+        if (last.id === toId) return path;
+        for (const id of last.blockedBy ?? []) {
+            const next = byId.get(id);
+            if (!next || seen.has(id)) continue;
+            seen.add(id);
+            queue.push([...path, next]);
+        }
+    }
+    return null;
+}
+
+/** Why `blockerId` cannot block `taskId`, or null when the link is fine. */
+export function dependencyError(tasks: Task[], taskId: string, blockerId: string): string | null {
+    if (taskId === blockerId) return "自分自身は指定できません";
+    const task = findById(tasks, taskId);
+    if (task?.blockedBy?.includes(blockerId)) return "すでに追加されています";
+    // Parent and child already depend on each other through the hierarchy (and completion rules).
+    if (isDescendant(tasks, taskId, blockerId) || isDescendant(tasks, blockerId, taskId)) return "親子関係にあるタスクは指定できません";
+    const cycle = dependencyPath(tasks, blockerId, taskId);
+    if (cycle) return `循環します（${[...cycle, cycle[0]].map((t) => t.text).join(" → ")}）`;
+    return null;
+}
+
+// "卒論 > 実験 > 実験結果" for telling apart tasks with the same title.
+export function taskLocation(tasks: Task[], id: string): string {
+    return (findPath(tasks, id) ?? []).map((t) => t.text).join(" > ");
+}
@@ -0,0 +1,211 @@
+// src/utils/ical.ts
+// RFC 5545 export of due dates and VTODO import.
+import type { Priority, Task } from "../types";
+import { newId } from "./tree";
+import { toIsoDate } from "./date";
+
+export type CalendarKind = "VTODO" | "VEVENT";
+
+const PRODID = "-//Flow Mind//Task Tree//JA";
+
+// iCal PRIORITY: 1-4 high, 5 medium, 6-9 low, 0 undefined.
+const priorityToIcal: Record<Priority, number> = { high: 1, medium: 5, low: 9 };
+function priorityFromIcal(n: number): Priority | undefined {
+    if (n >= 1 && n <= 4) return "high";
+    if (n === 5) return "medium";
+    if (n >= 6 && n <= 9) return "low";
+    return undefined;
+}
+
+/* ---------- export ---------- */
+
+/**
+ * `defaultDueTime` is when a deadline without a time falls due, as in the app's own reminders;
+ * alarms on such deadlines are shifted by it because the calendar anchors them to midnight.
+ */
+export function tasksToICalendar(tasks: Task[], kind: CalendarKind, includeDone = true, defaultDueTime = "09:00"): string {
+    const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN"];
+    const stamp = formatDateTime(new Date());
+
+    const visit = (arr: Task[], path: string[]) => {
+        for (const t of arr) {
+            if (t.due && (includeDone || !t.done)) {
+                const description = [path.length ? `親: ${path.join(" > ")}` : "", t.note ?? ""].filter(Boolean).join("\n\n");
+                const due = t.due.replace(/-/g, "");
+                lines.push(`BEGIN:${kind}`, `UID:${t.id}@flow-mind`, `DTSTAMP:${stamp}`, `CREATED:${formatDateTime(t.createdAt)}`);
+                lines.push(`SUMMARY:${escapeText(t.text)}`);
+                if (description) lines.push(`DESCRIPTION:${escapeText(description)}`);
+                if (t.priority) lines.push(`PRIORITY:${priorityToIcal[t.priority]}`);
+                if (kind === "VTODO") {
+                    // A due time is written as floating local time, like the app itself treats it.
+                    // DTSTART must then be a date-time too (RFC 5545 requires DUE and DTSTART to share a value type).
+                    if (t.start && t.start <= t.due) {
+                        const start = t.start.replace(/-/g, "");
+                        lines.push(t.dueTime ? `DTSTART:${start}T000000` : `DTSTART;VALUE=DATE:${start}`);
+                    }
+                    lines.push(t.dueTime ? `DUE:${due}T${t.dueTime.replace(":", "")}00` : `DUE;VALUE=DATE:${due}`);
+                    lines.push(`STATUS:${t.done ? "COMPLETED" : "NEEDS-ACTION"}`);
+                    if (t.done && t.completedAt) lines.push(`COMPLETED:${formatDateTime(t.completedAt)}`);
+                } else {
+                    lines.push(`DTSTART;VALUE=DATE:${due}`, `DTEND;VALUE=DATE:${nextDay(t.due)}`, "TRANSP:TRANSPARENT");
+                }
+                // A VTODO alarm counts back from DUE; an all-day VEVENT only has its start to count from.
+                const anchorMinutes = kind === "VTODO" && t.dueTime ? 0 : minutesOfDay(t.dueTime ?? defaultDueTime);
+                for (const minutes of t.reminders ?? []) {
+                    const trigger = `TRIGGER${kind === "VTODO" ? ";RELATED=END" : ""}:${formatDuration(anchorMinutes - minutes)}`;
+                    lines.push("BEGIN:VALARM", "ACTION:DISPLAY", `DESCRIPTION:${escapeText(t.text)}`, trigger, "END:VALARM");
+                }
+                lines.push(`END:${kind}`);
+            }
+            visit(t.children, [...path, t.text]);
+        }
+    };
+    visit(tasks, []);
+
+    lines.push("END:VCALENDAR");
+    return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+/* ---------- import ---------- */
+
+type Property = { name: string; params: Record<string, string>; value: string };
+
+/** Parses the VTODO components of a calendar into root-level Task nodes. */
+export function parseICalendar(ics: string): Task[] {
+    const unfolded = ics.replace(/\r?\n[ \t]/g, "");
+    const tasks: Task[] = [];
+    let current: Property[] | null = null;
+    let depth = 0; // nesting inside the current VTODO (e.g. VALARM)
+
+    for (const line of unfolded.split(/\r?\n/)) {
+        if (!line) continue;
+        const prop = parseProperty(line);
+        if (!prop) continue;
+        if (prop.name === "BEGIN") {
+            if (current) depth++;
+            else if (prop.value.toUpperCase() === "VTODO") current = [];
+            continue;
+        }
+        if (prop.name === "END") {
+            if (current && depth > 0) depth--;
+            else if (current && prop.value.toUpperCase() === "VTODO") {
+                const task = todoToTask(current);
+                if (task) tasks.push(task);
+                current = null;
+            }
+            continue;
+        }
+        if (current && depth === 0) current.push(prop);
+    }
+    return tasks;
+}
+
+function todoToTask(props: Property[]): Task | null {
+    const get = (name: string) => props.find((p) => p.name === name);
+    const text = unescapeText(get("SUMMARY")?.value ?? "").trim();
+    if (!text) return null;
+
+    const dueProp = get("DUE") ?? get("DTSTART");
+    // With both present DTSTART is the start date; alone it stands in for the due date.
+    const startProp = get("DUE") ? get("DTSTART") : undefined;
+    const start = startProp ? parseIcalDateTime(startProp.value) : undefined;
+    const due = dueProp ? parseIcalDateTime(dueProp.value) : undefined;
+    const priorityNum = parseInt(get("PRIORITY")?.value ?? "", 10);
+    const completedAt = get("COMPLETED") ? parseIcalDateTime(get("COMPLETED")!.value) : undefined;
+    const done = get("STATUS")?.value.toUpperCase() === "COMPLETED" || !!completedAt;
+    const note = unescapeText(get("DESCRIPTION")?.value ?? "").trim();
+    const created = get("CREATED") ?? get("DTSTAMP");
+
+    return {
+        id: newId(),
+        text,
+        done,
+        children: [],
+        priority: isNaN(priorityNum) ? undefined : priorityFromIcal(priorityNum),
+        start: start ? toIsoDate(start) : undefined,
+        due: due ? toIsoDate(due) : undefined,
+        dueTime: due && dueProp?.value.includes("T") ? `${pad(due.getHours())}:${pad(due.getMinutes())}` : undefined,
+        note: note || undefined,
+        createdAt: (created && parseIcalDateTime(created.value)) || new Date(),
+        completedAt: done ? completedAt ?? new Date() : undefined,
+    };
+}
+
+function parseProperty(line: string): Property | null {
+    // NAME;PARAM=VALUE;PARAM="quoted:value":VALUE — the first colon outside quotes ends the parameters.
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+        if (line[i] === '"') inQuotes = !inQuotes;
+        else if (line[i] === ":" && !inQuotes) { colon = i; break; }
+    }
+    if (colon < 0) return null;
+    const [name, ...rawParams] = line.slice(0, colon).split(";");
+    const params: Record<string, string> = {};
+    rawParams.forEach((p) => {
+        const [k, v = ""] = p.split("=");
+        params[k.toUpperCase()] = v.replace(/^"|"$/g, "");
+    });
+    return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/* ---------- value helpers ---------- */
+
+function escapeText(s: string): string {
+    return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+function unescapeText(s: string): string {
+    return s.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+// Lines longer than 75 octets are folded with CRLF + space, without splitting a UTF-8 sequence.
+function foldLine(line: string): string {
+    const encoder = new TextEncoder();
+    if (encoder.encode(line).length <= 75) return line;
+    const parts: string[] = [];
+    let chunk = "";
+    let size = 0;
+    for (const ch of line) {
+        const n = encoder.encode(ch).length;
+        const limit = parts.length === 0 ? 75 : 74; // continuation lines start with a space
+        if (size + n > limit) {
+            parts.push(chunk);
+            chunk = "";
+            size = 0;
+        }
+        chunk += ch;
+        size += n;
+    }
+    parts.push(chunk);
+    return parts.join("\r\n ");
+}
+
+function pad(n: number) { return String(n).padStart(2, "0"); }
+
+function formatDateTime(d: Date): string {
+    return `${d.getUTCFullYear()}${pad(d.getUTCMonth() + 1)}${pad(d.getUTCDate())}T${pad(d.getUTCHours())}${pad(d.getUTCMinutes())}${pad(d.getUTCSeconds())}Z`;
+}
+function minutesOfDay(hhmm: string): number {
+    const [h, m] = hhmm.split(":").map(Number);
+    return (h || 0) * 60 + (m || 0);
+}
+// Signed RFC 5545 duration in minutes: -PT30M, PT540M.
+function formatDuration(minutes: number): string {
+    return `${minutes < 0 ? "-" : ""}PT${Math.abs(minutes)}M`;
+}
+function nextDay(iso: string): string {
+    const d = new Date(iso + "T00:00:00");
+    d.setDate(d.getDate() + 1);
+    return `${d.getFullYear()}${pad(d.getMonth() + 1)}${pad(d.getDate())}`;
+}
+
+// DATE (20251031) or DATE-TIME (20251031T090000[Z]); returns a local Date.
+function parseIcalDateTime(value: string): Date | undefined {
+    const m = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+    if (!m) return undefined;
+    const [, y, mo, d, h = "0", mi = "0", s = "0", z] = m;
+    const date = z
+        ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+        : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+    return isNaN(date.getTime()) ? undefined : date;
+}
\ No newline at end of file
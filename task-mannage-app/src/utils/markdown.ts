@@ -0,0 +1,119 @@
+// src/utils/markdown.ts
+// Converts between nested Markdown checklists and the Task tree.
+//
+//   - [ ] 実装 !高 @2025-09-30
+//     - [x] 環境構築
+//       > メモは引用行として子の位置に書く
+import type { Priority, Task } from "../types";
+import { newId } from "./tree";
+
+const BULLET_RE = /^([-*+]|\d+[.)])\s+(.*)$/;
+const CHECKBOX_RE = /^\[([ xX])\]\s*(.*)$/;
+const PRIORITY_RE = /(^|\s)!(high|medium|low|高|中|低)(?=\s|$)/i;
+const DUE_RE = /(^|\s)@(\d{4}-\d{2}-\d{2})(?=\s|$)/;
+
+const priorityFromMarker: Record<string, Priority> = {
+    high: "high", medium: "medium", low: "low", 高: "high", 中: "medium", 低: "low",
+};
+const priorityMarker: Record<Priority, string> = { high: "!高", medium: "!中", low: "!低" };
+
+export function indentWidth(line: string): number {
+    let w = 0;
+    for (const ch of line) {
+        if (ch === " ") w += 1;
+        else if (ch === "\t") w += 4;
+        else if (ch === "　") w += 2; // full-width space
+        else break;
+    }
+    return w;
+}
+
+/** Extracts `!高` / `!high` and `@YYYY-MM-DD` markers from a title. */
+export function parseInlineMarkers(raw: string): { text: string; priority?: Priority; due?: string } {
+    let text = raw;
+    let priority: Priority | undefined;
+    let due: string | undefined;
+
+    const p = text.match(PRIORITY_RE);
+    if (p) {
+        priority = priorityFromMarker[p[2].toLowerCase()];
+        text = text.replace(PRIORITY_RE, "$1");
+    }
+    const d = text.match(DUE_RE);
+    if (d && !isNaN(new Date(d[2] + "T00:00:00").getTime())) {
+        due = d[2];
+        text = text.replace(DUE_RE, "$1");
+    }
+    return { text: text.replace(/\s+/g, " ").trim(), priority, due };
+}
+
+/**
+ * Parses an indented Markdown checklist into Task nodes.
+ * Indentation decides nesting; `>` lines are appended to the note of the item above them.
+ * Lines that are neither list items nor quotes (headings, prose) are ignored.
+ */
+export function markdownToTasks(markdown: string, now: Date = new Date()): Task[] {
+    const roots: Task[] = [];
+    const stack: { indent: number; task: Task }[] = [];
+
+    for (const line of markdown.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        const indent = indentWidth(line);
+        const body = line.trim();
+
+        if (body.startsWith(">")) {
+            const owner = stack[stack.length - 1]?.task;
+            if (!owner) continue;
+            const noteLine = body.replace(/^>\s?/, "");
+            owner.note = owner.note ? `${owner.note}\n${noteLine}` : noteLine;
+            continue;
+        }
+
+        const bullet = body.match(BULLET_RE);
+        if (!bullet) continue;
+
+        let content = bullet[2];
+        let done = false;
+        const box = content.match(CHECKBOX_RE);
+        if (box) {
+            done = box[1].toLowerCase() === "x";
+            content = box[2];
+        }
+        const { text, priority, due } = parseInlineMarkers(content);
+        if (!text) continue;
+
+        const task: Task = {
+            id: newId(),
+            text,
+            done,
+            children: [],
+            priority,
+            due,
+            createdAt: now,
+            completedAt: done ? now : undefined,
+        };
+
+        while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+        const parent = stack[stack.length - 1]?.task;
+        if (parent) parent.children.push(task);
+        else roots.push(task);
+        stack.push({ indent, task });
+    }
+    return roots;
+}
+
+/** Renders the tree as a nested checklist, in the order given. */
+export function tasksToMarkdown(tasks: Task[]): string {
+    const lines: string[] = [];
+    const visit = (arr: Task[], depth: number) => {
+        const pad = "  ".repeat(depth);
+        for (const t of arr) {
+            const markers = [t.priority && priorityMarker[t.priority], t.due && `@${t.due}`].filter(Boolean).join(" ");
+            lines.push(`${pad}- [${t.done ? "x" : " "}] ${t.text}${markers ? " " + markers : ""}`);
+            if (t.note) t.note.split(/\r?\n/).forEach((n) => lines.push(`${pad}  > ${n}`.trimEnd()));
+            visit(t.children, depth + 1);
+        }
+    };
+    visit(tasks, 0);
+    return lines.join("\n") + (lines.length ? "\n" : "");
+}
@@ -0,0 +1,85 @@
+// src/utils/progress.ts
+// Completion and effort roll-ups for parent tasks, and the rules applied when a task is checked off.
+import type { CompletionRules, EstimateUnit, Task } from "../types";
+
+export type Progress = { done: number; total: number };
+
+// Estimated effort; remaining counts open tasks only.
+export type Effort = { total: number; remaining: number };
+
+/** Done/total counts over every descendant (not the task itself), keyed by task id. Leaves are omitted. */
+export function buildProgressMap(tasks: Task[]): Map<string, Progress> {
+    const map = new Map<string, Progress>();
+    const visit = (t: Task): Progress => {
+        let done = 0;
+        let total = 0;
+        for (const c of t.children) {
+            const sub = visit(c);
+            done += sub.done + (c.done ? 1 : 0);
+            total += sub.total + 1;
+        }
+        if (total > 0) map.set(t.id, { done, total });
+        return { done, total };
+    };
+    tasks.forEach(visit);
+    return map;
+}
+
+/**
+ * Effort of every task with an estimate somewhere in its subtree, keyed by task id.
+ * Once any descendant is estimated the children's efforts are summed and the task's own estimate is ignored,
+ * so a breakdown replaces the rough figure on its parent instead of being counted twice.
+ */
+export function buildEffortMap(tasks: Task[]): Map<string, Effort> {
+    const map = new Map<string, Effort>();
+    const visit = (t: Task): Effort => {
+        let total = 0;
+        let remaining = 0;
+        for (const c of t.children) {
+            const sub = visit(c);
+            total += sub.total;
+            remaining += sub.remaining;
+        }
+        if (total === 0) total = remaining = t.estimate ?? 0;
+        if (t.done) remaining = 0;
+        if (total > 0) map.set(t.id, { total, remaining });
+        return { total, remaining };
+    };
+    tasks.forEach(visit);
+    return map;
+}
+
+export function formatEffort(value: number, unit: EstimateUnit): string {
+    const n = Math.round(value * 10) / 10;
+    return unit === "hours" ? `${n}h` : `${n}pt`;
+}
+
+/**
+ * Marks a task done or open, then applies the rules:
+ * - cascadeDown: completing a task completes its whole subtree.
+ * - autoCompleteParent: completing the last open child completes the parent (repeatedly upwards)
+ *   and reopening a child of an all-done parent reopens it. A parent is only touched when the change
+ *   flips whether all its children are done, so one completed by hand stays as it is otherwise.
+ */
+export function applyCompletion(tasks: Task[], id: string, done: boolean, rules: CompletionRules, now: Date = new Date()): Task[] {
+    const mark = (t: Task, value: boolean): Task =>
+        t.done === value ? t : { ...t, done: value, completedAt: value ? now : undefined };
+    const markAll = (t: Task): Task => ({ ...mark(t, true), children: t.children.map(markAll) });
+
+    // Returns the rewritten subtree, or the same reference when `id` is not inside it.
+    const visit = (t: Task): Task => {
+        if (t.id === id) return done && rules.cascadeDown ? markAll(t) : mark(t, done);
+        let changed = false;
+        const children = t.children.map((c) => {
+            const next = visit(c);
+            if (next !== c) changed = true;
+            return next;
+        });
+        if (!changed) return t;
+        const next = { ...t, children };
+        if (!rules.autoCompleteParent) return next;
+        const allDone = children.every((c) => c.done);
+        return allDone === t.children.every((c) => c.done) ? next : mark(next, allDone);
+    };
+    return tasks.map(visit);
+}
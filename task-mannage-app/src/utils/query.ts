@@ -0,0 +1,324 @@
+// src/utils/query.ts
+// A small filter language for the structure view, e.g.
+//
+//   priority:high due:<7d -done has:note under:"卒論" created:>2025-09-01
+//
+// Terms are separated by spaces and must all match; "-" negates a term. Bare words search titles and notes.
+// A term that fails to parse is reported and ignored, so the rest of the query keeps working.
+import type { Priority, Task } from "../types";
+import { addDays, endOfWeek, toIsoDate } from "./date";
+import { buildBlockedMap } from "./dependencies";
+import { matchesSearch, normalizeForSearch } from "./search";
+
+export type QueryError = { start: number; end: number; message: string };
+
+type Op = "=" | "<" | "<=" | ">" | ">=";
+
+// `blocked` holds the open tasks still waiting on an open blocker.
+type Ctx = { ancestors: Task[]; today: string; blocked: Set<string> };
+
+type Term = { negate: boolean; test: (task: Task, ctx: Ctx) => boolean };
+
+export type ParsedQuery = { source: string; terms: Term[]; errors: QueryError[] };
+
+// A raw term as typed, with its position in the source.
+export type QueryToken = {
+    start: number;
+    end: number;
+    negate: boolean;
+    key?: string;     // undefined for bare words
+    op: Op;
+    value: string;    // unquoted
+    quoted: boolean;
+    unterminated: boolean;
+};
+
+export const QUERY_KEYS: { key: string; hint: string }[] = [
+    { key: "priority", hint: "優先度 high / medium / low / none、比較も可 (>=medium)" },
+    { key: "due", hint: "期限 <7d, today, <=endofweek, 2025-10-31, none" },
+    { key: "start", hint: "開始日 <=today, none" },
+    { key: "created", hint: "作成日 >2025-09-01, >-7d" },
+    { key: "completed", hint: "完了日 >-7d, none" },
+    { key: "has", hint: "note / due / start / estimate / priority / tags / children / repeat" },
+    { key: "is", hint: "done / open / overdue / blocked" },
+    { key: "under", hint: "指定した名前のタスクの配下" },
+    { key: "tag", hint: "タグ名" },
+    { key: "text", hint: "タスク名・メモに含む語句" },
+];
+
+// Bare words that act as flags rather than text search.
+const FLAGS: Record<string, string> = { done: "is:done", open: "is:open", overdue: "is:overdue", blocked: "is:blocked" };
+
+export const PRIORITY_VALUES = ["high", "medium", "low", "none"];
+export const HAS_VALUES = ["note", "due", "start", "estimate", "priority", "tags", "children", "repeat"];
+export const IS_VALUES = ["done", "open", "overdue", "blocked"];
+
+const PRIORITY_ALIASES: Record<string, Priority> = {
+    high: "high", medium: "medium", low: "low", 高: "high", 中: "medium", 低: "low", h: "high", m: "medium", l: "low",
+};
+const PRIORITY_RANK: Record<Priority, number> = { low: 1, medium: 2, high: 3 };
+
+/* ---------- tokenizer ---------- */
+
+export function tokenizeQuery(source: string): QueryToken[] {
+    const tokens: QueryToken[] = [];
+    let i = 0;
+    const isSpace = (ch: string) => /[\s　]/.test(ch);
+
+    while (i < source.length) {
+        if (isSpace(source[i])) { i++; continue; }
+        const start = i;
+        let negate = false;
+        if (source[i] === "-" && i + 1 < source.length && !isSpace(source[i + 1])) { negate = true; i++; }
+
+        // key (only when followed by ":"), otherwise a bare word / phrase
+        let key: string | undefined;
+        const keyMatch = source.slice(i).match(/^([A-Za-z]+):/);
+        if (keyMatch) {
+            key = keyMatch[1].toLowerCase();
+            i += keyMatch[0].length;
+        }
+
+        let op: Op = "=";
+        if (key) {
+            const opMatch = source.slice(i).match(/^(<=|>=|<|>|=)/);
+            if (opMatch) { op = opMatch[1] as Op; i += opMatch[0].length; }
+        }
+
+        let value = "";
+        let quoted = false;
+        let unterminated = false;
+        if (source[i] === '"') {
+            quoted = true;
+            const close = source.indexOf('"', i + 1);
+            if (close === -1) { value = source.slice(i + 1); unterminated = true; i = source.length; }
+            else { value = source.slice(i + 1, close); i = close + 1; }
+        } else {
+            const from = i;
+            while (i < source.length && !isSpace(source[i])) i++;
+            value = source.slice(from, i);
+        }
+        tokens.push({ start, end: i, negate, key, op, value, quoted, unterminated });
+    }
+    return tokens;
+}
+
+/* ---------- parser ---------- */
+
+export function parseQuery(source: string): ParsedQuery {
+    const terms: Term[] = [];
+    const errors: QueryError[] = [];
+    for (const token of tokenizeQuery(source)) {
+        const result = compileToken(token);
+        if (typeof result === "string") errors.push({ start: token.start, end: token.end, message: result });
+        else terms.push({ negate: token.negate, test: result });
+    }
+    return { source, terms, errors };
+}
+
+// Returns the test for a token, or an error message.
+function compileToken(token: QueryToken): Term["test"] | string {
+    if (token.unterminated) return "引用符 \" が閉じていません";
+    const { key, op, value } = token;
+
+    if (!key) {
+        if (!token.quoted && FLAGS[value.toLowerCase()]) {
+            return compileToken({ ...tokenizeQuery(FLAGS[value.toLowerCase()])[0], start: token.start, end: token.end });
+        }
+        const words = [normalizeForSearch(value)].filter(Boolean);
+        return (t) => matchesSearch(t, words);
+    }
+
+    if (!QUERY_KEYS.some((k) => k.key === key)) {
+        return `不明なキー "${key}:"（${QUERY_KEYS.map((k) => k.key).join(", ")} が使えます）`;
+    }
+    if (!value) return `"${key}:" の値がありません`;
+    const lower = value.toLowerCase();
+    const onlyEquals = () => (op === "=" ? null : `"${key}:" では ${op} は使えません`);
+
+    switch (key) {
+        case "priority": {
+            if (lower === "none") return onlyEquals() ?? ((t) => !t.priority);
+            const p = PRIORITY_ALIASES[lower];
+            if (!p) return "priority の値は high / medium / low / none のいずれかです";
+            return (t) => !!t.priority && compare(PRIORITY_RANK[t.priority], op, PRIORITY_RANK[p]);
+        }
+        case "due":
+        case "start":
+        case "created":
+        case "completed": {
+            const field = (t: Task) => {
+                switch (key) {
+                    case "due": return t.due;
+                    case "start": return t.start;
+                    case "created": return toIsoDate(t.createdAt);
+                    default: return t.completedAt && toIsoDate(t.completedAt);
+                }
+            };
+            if (lower === "none") return onlyEquals() ?? ((t) => !field(t));
+            if (lower === "any") return onlyEquals() ?? ((t) => !!field(t));
+            const resolve = dateResolver(lower);
+            if (!resolve) return `日付 "${value}" を解釈できません（YYYY-MM-DD, today, endofweek, 7d, -7d など）`;
+            return (t, ctx) => {
+                const v = field(t);
+                return !!v && compare(v, op, resolve(ctx.today));
+            };
+        }
+        case "has": {
+            const err = onlyEquals();
+            if (err) return err;
+            switch (lower) {
+                case "note": return (t) => !!t.note;
+                case "due": return (t) => !!t.due;
+                case "start": return (t) => !!t.start;
+                case "estimate": return (t) => !!t.estimate;
+                case "priority": return (t) => !!t.priority;
+                case "tag":
+                case "tags": return (t) => !!t.tags?.length;
+                case "children":
+                case "subtasks": return (t) => t.children.length > 0;
+                case "repeat": return (t) => !!t.recurrence;
+            }
+            return `has: の値は ${HAS_VALUES.join(" / ")} のいずれかです`;
+        }
+        case "is": {
+            const err = onlyEquals();
+            if (err) return err;
+            switch (lower) {
+                case "done": return (t) => t.done;
+                case "open": return (t) => !t.done;
+                case "overdue": return (t, ctx) => !t.done && !!t.due && t.due < ctx.today;
+                case "blocked": return (t, ctx) => ctx.blocked.has(t.id);
+            }
+            return `is: の値は ${IS_VALUES.join(" / ")} のいずれかです`;
+        }
+        case "under": {
+            const err = onlyEquals();
+            if (err) return err;
+            const name = normalizeForSearch(value);
+            return (_t, ctx) => ctx.ancestors.some((a) => normalizeForSearch(a.text).includes(name));
+        }
+        case "tag": {
+            const err = onlyEquals();
+            if (err) return err;
+            const name = normalizeForSearch(value);
+            return (t) => !!t.tags?.some((tag) => normalizeForSearch(tag) === name);
+        }
+        case "text": {
+            const err = onlyEquals();
+            if (err) return err;
+            const words = [normalizeForSearch(value)];
+            return (t) => matchesSearch(t, words);
+        }
+    }
+    return `不明なキー "${key}:"`;
+}
+
+// Dates compare as ISO strings. Relative values ("7d", "-2w") count from today.
+function dateResolver(value: string): ((today: string) => string) | null {
+    if (value === "today") return (today) => today;
+    if (value === "tomorrow") return (today) => addDays(today, 1);
+    if (value === "yesterday") return (today) => addDays(today, -1);
+    if (value === "endofweek") return endOfWeek;
+    const rel = value.match(/^([+-]?\d+)([dw])$/);
+    if (rel) {
+        const days = parseInt(rel[1], 10) * (rel[2] === "w" ? 7 : 1);
+        return (today) => addDays(today, days);
+    }
+    if (/^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(value + "T00:00:00").getTime())) return () => value;
+    return null;
+}
+
+function compare<T extends string | number>(a: T, op: Op, b: T): boolean {
+    switch (op) {
+        case "<": return a < b;
+        case "<=": return a <= b;
+        case ">": return a > b;
+        case ">=": return a >= b;
+        default: return a === b;
+    }
+}
+
+/* ---------- evaluation ---------- */
+
+export function matchesQuery(
+    task: Task,
+    query: ParsedQuery,
+    ancestors: Task[],
+    now: Date = new Date(),
+    blocked: Set<string> = new Set()
+): boolean {
+    const ctx: Ctx = { ancestors, today: toIsoDate(now), blocked };
+    return query.terms.every((term) => term.test(task, ctx) !== term.negate);
+}
+
+/** Keeps matching tasks together with all of their ancestors (like filterTasks, but terms can see the ancestors). */
+export function applyQuery(tasks: Task[], query: ParsedQuery, now: Date = new Date()): Task[] {
+    if (query.terms.length === 0) return tasks;
+    const blocked = new Set(buildBlockedMap(tasks).keys());
+    const visit = (arr: Task[], ancestors: Task[]): Task[] => {
+        const out: Task[] = [];
+        for (const t of arr) {
+            const children = visit(t.children, [...ancestors, t]);
+            if (children.length > 0 || matchesQuery(t, query, ancestors, now, blocked)) out.push({ ...t, children });
+        }
+        return out;
+    };
+    return visit(tasks, []);
+}
+
+/* ---------- autocompletion ---------- */
+
+export type QuerySuggestion = { label: string; hint?: string; replacement: string };
+
+/**
+ * Completions for the term under the caret: keys while typing a bare word, values after "key:".
+ * `replacement` replaces source.slice(from, to).
+ */
+export function suggestQuery(
+    source: string,
+    caret: number,
+    values: { tags: string[]; parents: string[] }
+): { from: number; to: number; items: QuerySuggestion[] } {
+    const token = tokenizeQuery(source).find((t) => t.start <= caret && caret <= t.end);
+    const from = token?.start ?? caret;
+    const to = token?.end ?? caret;
+    const sign = token?.negate ? "-" : "";
+
+    if (!token || !token.key) {
+        const typed = (token?.value ?? "").toLowerCase();
+        if (token?.quoted) return { from, to, items: [] };
+        const keys = QUERY_KEYS
+            .filter((k) => k.key.startsWith(typed))
+            .map((k) => ({ label: `${k.key}:`, hint: k.hint, replacement: `${sign}${k.key}:` }));
+        const flags = Object.keys(FLAGS)
+            .filter((f) => typed && f.startsWith(typed) && f !== typed)
+            .map((f) => ({ label: f, hint: FLAGS[f], replacement: `${sign}${f}` }));
+        return { from, to, items: [...keys, ...flags] };
+    }
+
+    const candidates = (() => {
+        switch (token.key) {
+            case "priority": return PRIORITY_VALUES;
+            case "due": return ["<today", "<7d", "<=endofweek", "today", "tomorrow", "none", "any"];
+            case "start": return ["<=today", ">today", "none", "any"];
+            case "created": return [">-7d", ">-30d", "today"];
+            case "completed": return [">-7d", "today", "none", "any"];
+            case "has": return HAS_VALUES;
+            case "is": return IS_VALUES;
+            case "tag": return values.tags;
+            case "under": return values.parents;
+            default: return [];
+        }
+    })();
+    const typed = normalizeForSearch((token.op === "=" ? "" : token.op) + token.value);
+    const items = candidates
+        .filter((v) => normalizeForSearch(v).startsWith(typed) && normalizeForSearch(v) !== typed)
+        .slice(0, 12)
+        .map((v) => ({ label: v, replacement: `${sign}${token.key}:${quoteIfNeeded(v)}` }));
+    return { from, to, items };
+}
+
+function quoteIfNeeded(value: string): string {
+    return /[\s　"]/.test(value) ? `"${value.replace(/"/g, "")}"` : value;
+}
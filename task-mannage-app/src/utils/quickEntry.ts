@@ -0,0 +1,203 @@
+// src/utils/quickEntry.ts
+// Inline tokens for fast entry in InputPanel:
+//   !高 / !high        priority
+//   @明日 @金曜 @2025-10-31 @10/31 @3日後 @2週間後   due date
+//   #卒論              parent task (matched by name)
+//   // memo text       note (rest of the line)
+//
+// Pasted multi-line text goes through outlineToTasks: indentation becomes nesting and
+// each line may carry the same tokens (except `#`, since the outline itself gives the parent).
+import type { Priority, Task } from "../types";
+import { addDays, toIsoDate } from "./date";
+import { indentWidth } from "./markdown";
+import { newId } from "./tree";
+
+export type QuickEntryToken =
+    | { kind: "priority"; raw: string; priority: Priority }
+    | { kind: "due"; raw: string; due: string }
+    | { kind: "parent"; raw: string; name: string }
+    | { kind: "note"; raw: string; note: string };
+
+export type QuickEntry = {
+    text: string;
+    priority?: Priority;
+    due?: string;
+    parentName?: string;
+    note?: string;
+    tokens: QuickEntryToken[];
+};
+
+const PRIORITY_WORDS: Record<string, Priority> = {
+    高: "high", 中: "medium", 低: "low",
+    high: "high", medium: "medium", low: "low",
+    h: "high", m: "medium", l: "low",
+};
+
+const WEEKDAYS: Record<string, number> = {
+    日: 0, 月: 1, 火: 2, 水: 3, 木: 4, 金: 5, 土: 6,
+    sun: 0, mon: 1, tue: 2, wed: 3, thu: 4, fri: 5, sat: 6,
+};
+
+const RELATIVE_DAYS: Record<string, number> = {
+    今日: 0, きょう: 0, today: 0,
+    明日: 1, あした: 1, tomorrow: 1,
+    明後日: 2, あさって: 2,
+    来週: 7, nextweek: 7,
+};
+
+/** Resolves the text after `@` to an ISO date, or null when it is not a date. */
+export function parseDueWord(word: string, now: Date = new Date()): string | null {
+    const w = word.toLowerCase();
+    const base = toIsoDate(now);
+
+    if (w in RELATIVE_DAYS) return addDays(base, RELATIVE_DAYS[w]);
+
+    // 金曜 / 金曜日 / 金 / fri / friday: the next such day, today included.
+    const wd = w.match(/^(日|月|火|水|木|金|土)(?:曜日?)?$/) ?? w.match(/^(sun|mon|tue|wed|thu|fri|sat)[a-z]*$/);
+    if (wd) {
+        const diff = (WEEKDAYS[wd[1]] - now.getDay() + 7) % 7;
+        return addDays(base, diff);
+    }
+
+    // 3日後 / 2週間後 / +3d / +2w
+    const rel = w.match(/^(\d+)(日|週間?)後$/) ?? w.match(/^\+(\d+)([dw])$/);
+    if (rel) {
+        const n = parseInt(rel[1], 10);
+        return addDays(base, rel[2] === "d" || rel[2] === "日" ? n : n * 7);
+    }
+
+    // 2025-10-31 / 2025/10/31
+    const full = w.match(/^(\d{4})[-/](\d{1,2})[-/](\d{1,2})$/);
+    if (full) return validDate(+full[1], +full[2], +full[3]);
+
+    // 10/31: this year, or next year if that day has already passed.
+    const md = w.match(/^(\d{1,2})\/(\d{1,2})$/);
+    if (md) {
+        const thisYear = validDate(now.getFullYear(), +md[1], +md[2]);
+        if (thisYear && thisYear < base) return validDate(now.getFullYear() + 1, +md[1], +md[2]);
+        return thisYear;
+    }
+    return null;
+}
+
+export function parseQuickEntry(input: string, now: Date = new Date(), allowParent = true): QuickEntry {
+    const tokens: QuickEntryToken[] = [];
+    let rest = input;
+
+    const noteMatch = rest.match(/(^|\s)\/\/\s?(.*)$/);
+    if (noteMatch) {
+        const note = noteMatch[2].trim();
+        if (note) tokens.push({ kind: "note", raw: noteMatch[0].trim(), note });
+        rest = rest.slice(0, noteMatch.index);
+    }
+
+    const words = rest.split(/\s+/).filter(Boolean);
+    const kept: string[] = [];
+    for (const word of words) {
+        const head = word[0];
+        const body = word.slice(1);
+        if ((head === "!" || head === "！") && body.toLowerCase() in PRIORITY_WORDS) {
+            tokens.push({ kind: "priority", raw: word, priority: PRIORITY_WORDS[body.toLowerCase()] });
+            continue;
+        }
+        if ((head === "@" || head === "＠") && body) {
+            const due = parseDueWord(body, now);
+            if (due) {
+                tokens.push({ kind: "due", raw: word, due });
+                continue;
+            }
+        }
+        if (allowParent && (head === "#" || head === "＃") && body) {
+            tokens.push({ kind: "parent", raw: word, name: body });
+            continue;
+        }
+        kept.push(word);
+    }
+
+    // The last token of each kind wins.
+    const last = <K extends QuickEntryToken["kind"]>(kind: K) =>
+        [...tokens].reverse().find((t): t is Extract<QuickEntryToken, { kind: K }> => t.kind === kind);
+
+    return {
+        text: kept.join(" "),
+        priority: last("priority")?.priority,
+        due: last("due")?.due,
+        parentName: last("parent")?.name,
+        note: last("note")?.note,
+        tokens,
+    };
+}
+
+// "- ", "* ", "+ ", "・", "• ", "1. ", "1) ", "１．" and an optional "[ ]" / "[x]" checkbox.
+const OUTLINE_BULLET_RE = /^(?:[-*+•]\s+|・\s*|[0-9０-９]+[.)．）]\s*)/;
+const OUTLINE_CHECKBOX_RE = /^\[([ xX])\]\s*/;
+
+/**
+ * Builds a task tree from indented plain text (spaces, tabs or full-width spaces).
+ * Bullets and numbering are optional and stripped; blank lines are skipped.
+ */
+export function outlineToTasks(text: string, now: Date = new Date()): Task[] {
+    const roots: Task[] = [];
+    const stack: { indent: number; task: Task }[] = [];
+
+    for (const line of text.split(/\r?\n/)) {
+        if (!line.trim()) continue;
+        const indent = indentWidth(line);
+        let body = line.trim().replace(OUTLINE_BULLET_RE, "");
+        let done = false;
+        const box = body.match(OUTLINE_CHECKBOX_RE);
+        if (box) {
+            done = box[1].toLowerCase() === "x";
+            body = body.slice(box[0].length);
+        }
+        const entry = parseQuickEntry(body, now, false);
+        if (!entry.text) continue;
+
+        const task: Task = {
+            id: newId(),
+            text: entry.text,
+            done,
+            children: [],
+            priority: entry.priority,
+            due: entry.due,
+            note: entry.note,
+            createdAt: now,
+            completedAt: done ? now : undefined,
+        };
+
+        while (stack.length && stack[stack.length - 1].indent >= indent) stack.pop();
+        const parent = stack[stack.length - 1]?.task;
+        if (parent) parent.children.push(task);
+        else roots.push(task);
+        stack.push({ indent, task });
+    }
+    return roots;
+}
+
+/** Finds the task a `#name` token refers to: exact title first, then prefix, then substring; open tasks win ties. */
+export function findTaskByName(candidates: Task[], name: string): Task | null {
+    const key = name.toLowerCase();
+    const rank = (t: Task) => {
+        const title = t.text.toLowerCase();
+        if (title === key) return 0;
+        if (title.startsWith(key)) return 1;
+        if (title.includes(key)) return 2;
+        return 3;
+    };
+    let best: Task | null = null;
+    let bestRank = 3;
+    for (const t of candidates) {
+        const r = rank(t);
+        if (r < bestRank || (r === bestRank && r < 3 && best?.done && !t.done)) {
+            best = t;
+            bestRank = r;
+        }
+    }
+    return best;
+}
+
+function validDate(y: number, m: number, d: number): string | null {
+    const date = new Date(y, m - 1, d);
+    if (date.getFullYear() !== y || date.getMonth() !== m - 1 || date.getDate() !== d) return null;
+    return toIsoDate(date);
+}
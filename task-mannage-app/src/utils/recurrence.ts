@@ -0,0 +1,143 @@
+// src/utils/recurrence.ts
+// Recurring tasks: when an occurrence is completed, the next one is added right after it.
+// Every occurrence carries the same seriesId, which is what links them into a history.
+import type { Recurrence, RecurrenceRule, Task } from "../types";
+import { addDays, parseIsoDate, toIsoDate } from "./date";
+import { findById, flattenTasks, insertAt, locate, newId } from "./tree";
+
+export const WEEKDAY_LABELS = ["日", "月", "火", "水", "木", "金", "土"];
+
+export function describeRecurrence(rule: RecurrenceRule): string {
+    switch (rule.kind) {
+        case "daily": return "毎日";
+        case "weekdays": return "平日";
+        case "weekly": return `毎週 ${[...rule.days].sort().map((d) => WEEKDAY_LABELS[d]).join("・")}`;
+        case "monthlyDate": return rule.day >= 31 ? "毎月 月末" : `毎月 ${rule.day}日`;
+        case "monthlyNth": return `毎月 ${rule.nth === -1 ? "最終" : `第${rule.nth}`}${WEEKDAY_LABELS[rule.weekday]}曜`;
+        case "afterDone": return `完了の${rule.days}日後`;
+    }
+}
+
+// A sensible rule of the given kind for a task due on `base` (weekly on its weekday, monthly on its date, ...).
+export function defaultRule(kind: RecurrenceRule["kind"], base: string): RecurrenceRule {
+    const d = parseIsoDate(base);
+    switch (kind) {
+        case "daily": return { kind };
+        case "weekdays": return { kind };
+        case "weekly": return { kind, days: [d.getDay()] };
+        case "monthlyDate": return { kind, day: d.getDate() };
+        case "monthlyNth": {
+            const nth = Math.ceil(d.getDate() / 7);
+            return { kind, nth: nth > 4 ? -1 : nth, weekday: d.getDay() };
+        }
+        case "afterDone": return { kind, days: 7 };
+    }
+}
+
+function daysInMonth(d: Date): number {
+    return new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
+}
+
+function matchesDate(rule: RecurrenceRule, iso: string): boolean {
+    const d = parseIsoDate(iso);
+    const weekday = d.getDay();
+    switch (rule.kind) {
+        case "daily": return true;
+        case "weekdays": return weekday !== 0 && weekday !== 6;
+        case "weekly": return rule.days.length === 0 || rule.days.includes(weekday);
+        // Days past the end of a shorter month fall on its last day.
+        case "monthlyDate": return d.getDate() === Math.min(rule.day, daysInMonth(d));
+        case "monthlyNth": {
+            if (weekday !== rule.weekday) return false;
+            if (rule.nth === -1) return d.getDate() + 7 > daysInMonth(d);
+            return Math.ceil(d.getDate() / 7) === rule.nth;
+        }
+        case "afterDone": return true;
+    }
+}
+
+/**
+ * The due date of the next occurrence.
+ * Calendar rules take the first matching day after the current due date (or after `completedOn` when there is none),
+ * skipping days already in the past so an overdue task does not spawn another overdue one.
+ * "afterDone" counts from the completion day.
+ */
+export function nextDue(rule: RecurrenceRule, due: string | undefined, completedOn: string): string {
+    if (rule.kind === "afterDone") return addDays(completedOn, Math.max(1, rule.days));
+    let d = addDays(due ?? completedOn, 1);
+    // Every rule matches at least once within a year; the bound only guards against malformed rules.
+    for (let i = 0; i < 800 && (d < completedOn || !matchesDate(rule, d)); i++) d = addDays(d, 1);
+    return d;
+}
+
+// "進捗報告 第3回" -> "進捗報告 第4回". Full-width digits stay full-width; a title without a number gets " #2".
+export function incrementCounter(title: string): string {
+    const m = title.match(/([0-9]+|[０-９]+)(?!.*[0-9０-９])/);
+    if (!m || m.index === undefined) return `${title} #2`;
+    const wide = /[０-９]/.test(m[1]);
+    const n = parseInt(wide ? m[1].replace(/[０-９]/g, (c) => String.fromCharCode(c.charCodeAt(0) - 0xfee0)) : m[1], 10) + 1;
+    const next = String(n).padStart(m[1].length, "0");
+    const out = wide ? next.replace(/[0-9]/g, (c) => String.fromCharCode(c.charCodeAt(0) + 0xfee0)) : next;
+    return title.slice(0, m.index) + out + title.slice(m.index + m[1].length);
+}
+
+/**
+ * The occurrence following `task`: open, with the due date rolled forward and subtasks reset.
+ * "Blocked by" links between tasks of the copied subtree follow them to the new ids;
+ * links to the finished occurrence itself are dropped, links to other tasks are kept.
+ */
+export function nextOccurrence(task: Task, recurrence: Recurrence, now: Date = new Date()): Task {
+    const today = toIsoDate(now);
+    const due = nextDue(recurrence.rule, task.due, today);
+    // Start and subtask due dates move by as many days as the task itself.
+    const shift = task.due ? Math.round((parseIsoDate(due).getTime() - parseIsoDate(task.due).getTime()) / 86_400_000) : 0;
+    const ids = new Map(flattenTasks([task]).map((t) => [t.id, newId()]));
+    const blockers = (t: Task): string[] | undefined => {
+        const out = (t.blockedBy ?? []).filter((b) => b !== task.id).map((b) => ids.get(b) ?? b);
+        return out.length ? out : undefined;
+    };
+    const reset = (t: Task): Task => ({
+        ...t,
+        id: ids.get(t.id)!,
+        done: false,
+        completedAt: undefined,
+        createdAt: now,
+        // Time spent on a past occurrence stays with it.
+        sessions: undefined,
+        blockedBy: blockers(t),
+        start: t.start && shift ? addDays(t.start, shift) : t.start,
+        due: t.due && shift ? addDays(t.due, shift) : t.due,
+        children: t.children.map(reset),
+    });
+    return {
+        ...reset(task),
+        text: recurrence.countInTitle ? incrementCounter(task.text) : task.text,
+        due,
+        recurrence,
+    };
+}
+
+/** Every occurrence of a series still in the tree, oldest first. */
+export function seriesHistory(tasks: Task[], seriesId: string): Task[] {
+    return flattenTasks(tasks)
+        .filter((t) => t.recurrence?.seriesId === seriesId)
+        .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+}
+
+/**
+ * Adds the next occurrence after each of `ids` that is a completed recurring task.
+ * A series that already has an open occurrence gets none, so unchecking and re-checking does not pile them up.
+ */
+export function rollRecurring(tasks: Task[], ids: string[], now: Date = new Date()): Task[] {
+    let out = tasks;
+    for (const id of ids) {
+        const task = findById(out, id);
+        const recurrence = task?.recurrence;
+        if (!task || !task.done || !recurrence) continue;
+        if (seriesHistory(out, recurrence.seriesId).some((t) => !t.done)) continue;
+        const at = locate(out, id);
+        if (!at) continue;
+        out = insertAt(out, at.parentId, at.index + 1, nextOccurrence(task, recurrence, now));
+    }
+    return out;
+}
@@ -0,0 +1,87 @@
+// src/utils/reminders.ts
+// Deadline reminders. A task's deadline is its due date at dueTime, or at the default time when it has none;
+// each entry of task.reminders fires that many minutes before it.
+import type { ReminderState, Task } from "../types";
+import { parseIsoDate } from "./date";
+import { flattenTasks } from "./tree";
+
+export const REMINDER_PRESETS = [0, 10, 60, 120, 1440, 10080];
+
+export const SNOOZE_PRESETS = [
+    { minutes: 10, label: "10分後" },
+    { minutes: 60, label: "1時間後" },
+    { minutes: 1440, label: "明日" },
+];
+
+// Reminders whose time passed while the app was closed still fire on the next load, unless they are older than this.
+const MISSED_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export type DueReminder = {
+    key: string;
+    taskId: string;
+    title: string;
+    deadline: Date;
+    offset: number;  // minutes before the deadline
+    fireAt: number;  // epoch ms, later than deadline - offset when snoozed
+};
+
+export function formatOffset(minutes: number): string {
+    if (minutes === 0) return "期限時刻";
+    if (minutes % 1440 === 0) return minutes === 10080 ? "1週間前" : `${minutes / 1440}日前`;
+    if (minutes % 60 === 0) return `${minutes / 60}時間前`;
+    return `${minutes}分前`;
+}
+
+export function deadlineOf(task: Task, defaultTime: string): Date | null {
+    if (!task.due) return null;
+    const [h, m] = (task.dueTime ?? defaultTime).split(":").map(Number);
+    const d = parseIsoDate(task.due);
+    d.setHours(h || 0, m || 0, 0, 0);
+    return d;
+}
+
+export function reminderKey(taskId: string, offset: number, deadline: Date): string {
+    return `${taskId}:${offset}:${deadline.getTime()}`;
+}
+
+/** Every reminder of an open task, including ones already delivered. */
+function allReminders(tasks: Task[], defaultTime: string, snoozed: ReminderState["snoozed"]): DueReminder[] {
+    const out: DueReminder[] = [];
+    for (const t of flattenTasks(tasks)) {
+        if (t.done || !t.reminders?.length) continue;
+        const deadline = deadlineOf(t, defaultTime);
+        if (!deadline) continue;
+        for (const offset of t.reminders) {
+            const key = reminderKey(t.id, offset, deadline);
+            out.push({ key, taskId: t.id, title: t.text, deadline, offset, fireAt: snoozed[key] ?? deadline.getTime() - offset * 60_000 });
+        }
+    }
+    return out;
+}
+
+/** Reminders that have not been delivered yet, soonest first. */
+export function pendingReminders(tasks: Task[], defaultTime: string, state: ReminderState): DueReminder[] {
+    const fired = new Set(state.fired);
+    return allReminders(tasks, defaultTime, state.snoozed)
+        .filter((r) => !fired.has(r.key))
+        .sort((a, b) => a.fireAt - b.fireAt);
+}
+
+export function remindersDue(pending: DueReminder[], now: number): DueReminder[] {
+    return pending.filter((r) => r.fireAt <= now && r.fireAt > now - MISSED_WINDOW_MS);
+}
+
+/** Drops entries for reminders that no longer exist (task done, deleted, or its deadline moved). */
+export function pruneReminderState(state: ReminderState, tasks: Task[], defaultTime: string): ReminderState {
+    const live = new Set(allReminders(tasks, defaultTime, {}).map((r) => r.key));
+    const fired = state.fired.filter((k) => live.has(k));
+    const snoozed = Object.fromEntries(Object.entries(state.snoozed).filter(([k]) => live.has(k)));
+    const unchanged = fired.length === state.fired.length && Object.keys(snoozed).length === Object.keys(state.snoozed).length;
+    return unchanged ? state : { fired, snoozed };
+}
+
+export function describeReminder(r: DueReminder): string {
+    const d = r.deadline;
+    const when = `${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+    return `期限 ${when}（${formatOffset(r.offset)}のリマインド）`;
+}
@@ -0,0 +1,86 @@
+// src/utils/search.ts
+// Full-text search over task titles and notes.
+// Matching ignores case, full/half width and hiragana/katakana, so "ﾚﾎﾟｰﾄ", "レポート" and "れぽーと" are equal.
+import type { Task } from "../types";
+import { filterTasks } from "./tree";
+
+export type TextRange = { start: number; end: number };
+
+// Folds one character: NFKC (width, compatibility forms), lower case, katakana to hiragana.
+function foldChar(ch: string): string {
+    return ch
+        .normalize("NFKC")
+        .toLowerCase()
+        .replace(/[ァ-ヶ]/g, (k) => String.fromCharCode(k.charCodeAt(0) - 0x60));
+}
+
+/**
+ * Folds `text` and records, for every folded character, the index of the original character it came from,
+ * so matches found in the folded string can be highlighted in the original.
+ */
+function fold(text: string): { folded: string; origin: number[] } {
+    let folded = "";
+    const origin: number[] = [];
+    let i = 0;
+    for (const ch of text) {
+        const f = foldChar(ch);
+        // Half-width voiced marks (ｶﾞ) fold to combining marks; merge them into the previous kana.
+        if (/^[゙゚]$/.test(f) && folded) {
+            const merged = (folded.slice(-1) + f).normalize("NFC");
+            if (merged.length === 1) folded = folded.slice(0, -1) + merged;
+            else { folded += f; origin.push(i); }
+        } else {
+            for (let k = 0; k < f.length; k++) origin.push(i);
+            folded += f;
+        }
+        i += ch.length;
+    }
+    origin.push(i);
+    return { folded, origin };
+}
+
+export function normalizeForSearch(text: string): string {
+    return fold(text).folded;
+}
+
+/** Splits a query into folded words; every word has to match (in the title or the note). */
+export function parseSearchQuery(query: string): string[] {
+    return query.split(/[\s　]+/).map(normalizeForSearch).filter(Boolean);
+}
+
+export function matchesSearch(task: Task, words: string[]): boolean {
+    if (words.length === 0) return true;
+    const text = normalizeForSearch(task.text);
+    const note = normalizeForSearch(task.note ?? "");
+    return words.every((w) => text.includes(w) || note.includes(w));
+}
+
+/** Ranges in the original `text` where any of the words occurs, merged and sorted. */
+export function findMatches(text: string, words: string[]): TextRange[] {
+    if (words.length === 0) return [];
+    const { folded, origin } = fold(text);
+    const ranges: TextRange[] = [];
+    for (const w of words) {
+        for (let at = folded.indexOf(w); at !== -1; at = folded.indexOf(w, at + 1)) {
+            ranges.push({ start: origin[at], end: origin[at + w.length] });
+        }
+    }
+    ranges.sort((a, b) => a.start - b.start);
+    const merged: TextRange[] = [];
+    for (const r of ranges) {
+        const last = merged[merged.length - 1];
+        if (last && r.start <= last.end) last.end = Math.max(last.end, r.end);
+        else merged.push({ ...r });
+    }
+    return merged;
+}
+
+/**
+ * Keeps matching tasks and their ancestors, with their collapsed state as stored.
+ * The tree view shows them expanded while a search is active so every match is visible.
+ */
+export function applySearch(tasks: Task[], query: string): Task[] {
+    const words = parseSearchQuery(query);
+    if (words.length === 0) return tasks;
+    return filterTasks(tasks, (t) => matchesSearch(t, words));
+}
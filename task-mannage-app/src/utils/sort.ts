@@ -0,0 +1,82 @@
+// src/utils/sort.ts
+import type { Priority, SortKey, SortOptions, SortOrder, SortRule, Task } from "../types";
+import { buildEffortMap, buildProgressMap, Effort, Progress } from "./progress";
+
+export const priorityOrder: Record<Priority, number> = { high: 3, medium: 2, low: 1 };
+
+export const DEFAULT_SORT_OPTIONS: SortOptions = { thenBy: [], missing: 'last', scope: { kind: 'all' } };
+
+type Value = number | string | undefined;
+
+// The value each key compares, oriented so that a smaller value comes first in 'asc'.
+// undefined means "no value" and is placed by SortOptions.missing regardless of the order.
+type Rollups = { progress: Map<string, Progress>; effort: Map<string, Effort> };
+
+function valueOf(task: Task, key: Exclude<SortKey, 'manual'>, { progress, effort }: Rollups): Value {
+    switch (key) {
+        case 'dueDate': return task.due;
+        case 'priority': return task.priority ? -priorityOrder[task.priority] : undefined; // 'asc' lists high first
+        case 'createdAt': return -task.createdAt.getTime();                               // 'asc' lists newest first
+        case 'title': return task.text;
+        case 'completedAt': return task.completedAt?.getTime();
+        case 'progress': {
+            const p = progress.get(task.id);
+            return p ? p.done / p.total : undefined;
+        }
+        case 'effort': return effort.get(task.id)?.remaining;
+    }
+}
+
+function compareValues(a: Value, b: Value): number {
+    if (typeof a === "string" && typeof b === "string") return a.localeCompare(b, "ja");
+    return (a as number) - (b as number);
+}
+
+/**
+ * Sorts the tree by `sortKey`, then by each of `options.thenBy` in turn. Ties keep the stored (manual) order.
+ * "manual" returns the tree untouched (the stored order is the manual order).
+ * `options.scope` limits which levels are sorted: every level, only the top level, or only inside one subtree.
+ */
+export function sortTasks(tasks: Task[], sortKey: SortKey, sortOrder: SortOrder, options: SortOptions = DEFAULT_SORT_OPTIONS): Task[] {
+    if (sortKey === 'manual') return tasks;
+    const rules: SortRule[] = [{ key: sortKey, order: sortOrder }, ...options.thenBy];
+    const uses = (key: SortKey) => rules.some((r) => r.key === key);
+    const rollups: Rollups = {
+        progress: uses('progress') ? buildProgressMap(tasks) : new Map(),
+        effort: uses('effort') ? buildEffortMap(tasks) : new Map(),
+    };
+
+    const compare = (a: Task, b: Task): number => {
+        for (const rule of rules) {
+            const va = valueOf(a, rule.key, rollups);
+            const vb = valueOf(b, rule.key, rollups);
+            if (va === undefined || vb === undefined) {
+                if (va === vb) continue;
+                const missingFirst = options.missing === 'first';
+                return (va === undefined) === missingFirst ? -1 : 1;
+            }
+            const c = compareValues(va, vb);
+            if (c !== 0) return rule.order === 'asc' ? c : -c;
+        }
+        return 0; // Array.prototype.sort is stable, so ties keep their stored order
+    };
+    const sortLevel = (arr: Task[]) => [...arr].sort(compare);
+
+    const { scope } = options;
+    if (scope.kind === 'top') return sortLevel(tasks);
+
+    const sortAll = (arr: Task[]): Task[] => sortLevel(arr).map((t) => ({ ...t, children: sortAll(t.children) }));
+    if (scope.kind === 'all') return sortAll(tasks);
+
+    // Subtree: only the descendants of the chosen task are reordered.
+    let found = false;
+    const visit = (arr: Task[]): Task[] => arr.map((t) => {
+        if (t.id === scope.rootId) {
+            found = true;
+            return { ...t, children: sortAll(t.children) };
+        }
+        return t.children.length ? { ...t, children: visit(t.children) } : t;
+    });
+    const out = visit(tasks);
+    return found ? out : tasks;
+}
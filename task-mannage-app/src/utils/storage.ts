@@ -0,0 +1,269 @@
+// src/utils/storage.ts
+// Persistence layer: IndexedDB when available, localStorage as a fallback.
+import type { ReminderState, RunningTimer, Settings, SmartView, Task, Template, TrashItem } from "../types";
+import { DEFAULT_SORT_OPTIONS } from "./sort";
+
+const DB_NAME = "flow-mind";
+const STORE_NAME = "state";
+const LS_PREFIX = "flow-mind:";
+const TASKS_KEY = "tasks";
+const TRASH_KEY = "trash";
+const SETTINGS_KEY = "settings";
+const TEMPLATES_KEY = "templates";
+const TAG_COLORS_KEY = "tagColors";
+const VIEWS_KEY = "views";
+const REMINDERS_KEY = "reminders";
+const TIMER_KEY = "timer";
+
+export const DEFAULT_SETTINGS: Settings = {
+    trashRetentionDays: 30,
+    sortKey: 'createdAt',
+    sortOrder: 'desc',
+    sortOptions: DEFAULT_SORT_OPTIONS,
+    completion: { autoCompleteParent: false, cascadeDown: false, openChildren: 'allow' },
+    recentDays: 7,
+    defaultDueTime: "09:00",
+    estimateUnit: "hours",
+    timer: { pomodoro: false, workMinutes: 25, breakMinutes: 5 },
+};
+
+// Bump this whenever the persisted Task shape changes, and add a migration below.
+export const SCHEMA_VERSION = 1;
+
+// A task as it looks after a JSON round-trip (dates become ISO strings).
+export type StoredTask = Omit<Task, "createdAt" | "completedAt" | "sessions" | "children"> & {
+    createdAt: string;
+    completedAt?: string;
+    sessions?: { start: string; end: string }[];
+    children: StoredTask[];
+};
+
+type StoredTree = {
+    version: number;
+    savedAt: string;
+    tasks: StoredTask[];
+};
+
+// migrations[n] upgrades a tree stored at version n to version n + 1.
+// Version 0 is a bare Task[] array written before the envelope existed.
+const migrations: Record<number, (tasks: unknown[]) => unknown[]> = {
+    0: (tasks) => tasks,
+};
+
+/* ---------- low level key/value ---------- */
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+    if (dbPromise) return dbPromise;
+    dbPromise = new Promise((resolve) => {
+        if (typeof indexedDB === "undefined") return resolve(null);
+        try {
+            const req = indexedDB.open(DB_NAME, 1);
+            req.onupgradeneeded = () => {
+                if (!req.result.objectStoreNames.contains(STORE_NAME)) req.result.createObjectStore(STORE_NAME);
+            };
+            req.onsuccess = () => resolve(req.result);
+            req.onerror = () => resolve(null);
+            req.onblocked = () => resolve(null);
+        } catch {
+            resolve(null);
+        }
+    });
+    return dbPromise;
+}
+
+/**
+ * Resolves to undefined only when the key is missing from both stores.
+ * Read and parse errors reject, so callers never mistake unreadable data for a first run and overwrite it.
+ */
+export async function readValue<T>(key: string): Promise<T | undefined> {
+    const db = await openDb();
+    if (db) {
+        const value = await new Promise<T | undefined>((resolve, reject) => {
+            const req = db.transaction(STORE_NAME, "readonly").objectStore(STORE_NAME).get(key);
+            req.onsuccess = () => resolve(req.result as T | undefined);
+            req.onerror = () => reject(req.error);
+        });
+        if (value !== undefined) return value;
+    }
+    // Also covers values written here while IndexedDB writes were failing.
+    const raw = localStorage.getItem(LS_PREFIX + key);
+    return raw == null ? undefined : (JSON.parse(raw) as T);
+}
+
+export async function writeValue<T>(key: string, value: T): Promise<void> {
+    const db = await openDb();
+    if (db) {
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const tx = db.transaction(STORE_NAME, "readwrite");
+                tx.objectStore(STORE_NAME).put(value, key);
+                tx.oncomplete = () => resolve();
+                tx.onerror = () => reject(tx.error);
+            });
+            return;
+        } catch (error) {
+            console.warn("IndexedDB write failed, falling back to localStorage:", error);
+        }
+    }
+    try {
+        localStorage.setItem(LS_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+        console.error("Failed to persist state:", error);
+    }
+}
+
+/* ---------- task tree ---------- */
+
+export function serializeTasks(tasks: Task[]): StoredTask[] {
+    return tasks.map((t) => ({
+        ...t,
+        createdAt: t.createdAt.toISOString(),
+        completedAt: t.completedAt ? t.completedAt.toISOString() : undefined,
+        sessions: t.sessions?.map((s) => ({ start: s.start.toISOString(), end: s.end.toISOString() })),
+        children: serializeTasks(t.children),
+    }));
+}
+
+export function reviveTasks(tasks: StoredTask[]): Task[] {
+    return tasks.map((t) => ({
+        ...t,
+        createdAt: toDate(t.createdAt) ?? new Date(),
+        completedAt: toDate(t.completedAt),
+        sessions: t.sessions?.flatMap((s) => {
+            const start = toDate(s.start);
+            const end = toDate(s.end);
+            return start && end ? [{ start, end }] : [];
+        }),
+        children: reviveTasks(t.children ?? []),
+    }));
+}
+
+// The input is whatever was stored or imported; after the last migration it has the current StoredTask shape.
+export function migrateTasks(tasks: unknown[], fromVersion: number): StoredTask[] {
+    if (fromVersion > SCHEMA_VERSION) {
+        throw new Error(`Stored schema version ${fromVersion} is newer than supported version ${SCHEMA_VERSION}`);
+    }
+    let out = tasks;
+    for (let v = fromVersion; v < SCHEMA_VERSION; v++) {
+        const migrate = migrations[v];
+        if (!migrate) throw new Error(`No migration from schema version ${v}`);
+        out = migrate(out);
+    }
+    return out as StoredTask[];
+}
+
+/**
+ * Loads the saved task tree.
+ * Returns null when nothing has been saved yet (first run), so the caller can decide whether to seed.
+ */
+export async function loadTasks(): Promise<Task[] | null> {
+    const stored = await readValue<StoredTree | StoredTask[]>(TASKS_KEY);
+    if (stored == null) return null;
+    if (Array.isArray(stored)) return reviveTasks(migrateTasks(stored, 0));
+    return reviveTasks(migrateTasks(stored.tasks ?? [], stored.version ?? 0));
+}
+
+export function saveTasks(tasks: Task[]): Promise<void> {
+    const payload: StoredTree = { version: SCHEMA_VERSION, savedAt: new Date().toISOString(), tasks: serializeTasks(tasks) };
+    return writeValue(TASKS_KEY, payload);
+}
+
+/* ---------- trash ---------- */
+
+type StoredTrashItem = Omit<TrashItem, "task" | "deletedAt"> & { task: StoredTask; deletedAt: string };
+
+export async function loadTrash(): Promise<TrashItem[]> {
+    const stored = await readValue<{ version: number; items: StoredTrashItem[] }>(TRASH_KEY);
+    if (!stored) return [];
+    return stored.items.map((item) => ({
+        ...item,
+        task: reviveTasks(migrateTasks([item.task], stored.version ?? 0))[0],
+        deletedAt: toDate(item.deletedAt) ?? new Date(),
+    }));
+}
+
+export function saveTrash(items: TrashItem[]): Promise<void> {
+    const stored = items.map((item) => ({ ...item, task: serializeTasks([item.task])[0], deletedAt: item.deletedAt.toISOString() }));
+    return writeValue(TRASH_KEY, { version: SCHEMA_VERSION, items: stored });
+}
+
+/* ---------- templates ---------- */
+
+// Returns null on first run so the caller can install the default templates.
+export async function loadTemplates(): Promise<Template[] | null> {
+    const stored = await readValue<{ version: number; templates: Template[] }>(TEMPLATES_KEY);
+    return stored ? stored.templates : null;
+}
+
+export function saveTemplates(templates: Template[]): Promise<void> {
+    return writeValue(TEMPLATES_KEY, { version: 1, templates });
+}
+
+/* ---------- tag colors ---------- */
+
+export async function loadTagColors(): Promise<Record<string, string>> {
+    const stored = await readValue<{ version: number; colors: Record<string, string> }>(TAG_COLORS_KEY);
+    return stored?.colors ?? {};
+}
+
+export function saveTagColors(colors: Record<string, string>): Promise<void> {
+    return writeValue(TAG_COLORS_KEY, { version: 1, colors });
+}
+
+/* ---------- saved views ---------- */
+
+export async function loadViews(): Promise<SmartView[]> {
+    const stored = await readValue<{ version: number; views: SmartView[] }>(VIEWS_KEY);
+    return stored?.views ?? [];
+}
+
+export function saveViews(views: SmartView[]): Promise<void> {
+    return writeValue(VIEWS_KEY, { version: 1, views });
+}
+
+/* ---------- reminders ---------- */
+
+export async function loadReminderState(): Promise<ReminderState> {
+    const stored = await readValue<{ version: number } & ReminderState>(REMINDERS_KEY);
+    return { fired: stored?.fired ?? [], snoozed: stored?.snoozed ?? {} };
+}
+
+export function saveReminderState(state: ReminderState): Promise<void> {
+    return writeValue(REMINDERS_KEY, { version: 1, ...state });
+}
+
+/* ---------- running timer ---------- */
+
+export async function loadTimer(): Promise<RunningTimer | null> {
+    const stored = await readValue<{ version: number; timer: RunningTimer | null }>(TIMER_KEY);
+    return stored?.timer ?? null;
+}
+
+export function saveTimer(timer: RunningTimer | null): Promise<void> {
+    return writeValue(TIMER_KEY, { version: 1, timer });
+}
+
+/* ---------- settings ---------- */
+
+export async function loadSettings(): Promise<Settings> {
+    const stored = await readValue<Partial<Settings>>(SETTINGS_KEY);
+    return {
+        ...DEFAULT_SETTINGS,
+        ...stored,
+        completion: { ...DEFAULT_SETTINGS.completion, ...stored?.completion },
+        sortOptions: { ...DEFAULT_SETTINGS.sortOptions, ...stored?.sortOptions },
+        timer: { ...DEFAULT_SETTINGS.timer, ...stored?.timer },
+    };
+}
+
+export function saveSettings(settings: Settings): Promise<void> {
+    return writeValue(SETTINGS_KEY, settings);
+}
+
+function toDate(v: unknown): Date | undefined {
+    if (v == null || v === "") return undefined;
+    const d = v instanceof Date ? v : new Date(v as string);
+    return isNaN(d.getTime()) ? undefined : d;
+}
@@ -0,0 +1,53 @@
+// src/utils/tags.ts
+// Tags are plain names stored on each task; colors are kept separately, keyed by name.
+import type { Task } from "../types";
+import { mapTasks } from "./tree";
+
+export const TAG_COLORS = ["#6aa6ff", "#9b7bff", "#22d3ee", "#10b981", "#f59e0b", "#ef4444", "#ec4899", "#a3e635"];
+
+/** Trims, drops a leading "+", removes empties and duplicates. Returns undefined for an empty list. */
+export function normalizeTags(tags: string[]): string[] | undefined {
+    const out: string[] = [];
+    for (const raw of tags) {
+        const tag = raw.trim().replace(/^[+＋]/, "");
+        if (tag && !out.includes(tag)) out.push(tag);
+    }
+    return out.length ? out : undefined;
+}
+
+/** Splits what the user typed into a tag field: commas, 、 and whitespace separate tags. */
+export function parseTagInput(input: string): string[] | undefined {
+    return normalizeTags(input.split(/[,、，\s]+/));
+}
+
+export function formatTagInput(tags?: string[]): string {
+    return (tags ?? []).join(", ");
+}
+
+/** Every tag in use with the number of tasks carrying it, most used first. */
+export function collectTags(tasks: Task[]): { name: string; count: number }[] {
+    const counts = new Map<string, number>();
+    const visit = (arr: Task[]) => arr.forEach((t) => {
+        t.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+        visit(t.children);
+    });
+    visit(tasks);
+    return [...counts].map(([name, count]) => ({ name, count })).sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+}
+
+/** Renames a tag everywhere. Renaming onto an existing tag merges the two. */
+export function renameTag(tasks: Task[], from: string, to: string): Task[] {
+    return mapTasks(tasks, (t) => (t.tags?.includes(from) ? { ...t, tags: normalizeTags(t.tags.map((tag) => (tag === from ? to : tag))) } : t));
+}
+
+export function removeTag(tasks: Task[], name: string): Task[] {
+    return mapTasks(tasks, (t) => (t.tags?.includes(name) ? { ...t, tags: normalizeTags(t.tags.filter((tag) => tag !== name)) } : t));
+}
+
+/** The chosen color, or a stable palette color derived from the name. */
+export function tagColor(name: string, colors: Record<string, string>): string {
+    if (colors[name]) return colors[name];
+    let hash = 0;
+    for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+    return TAG_COLORS[hash % TAG_COLORS.length];
+}
@@ -0,0 +1,60 @@
+// src/utils/templates.ts
+import type { Task, Template, TemplateNode } from "../types";
+import { addDays, parseIsoDate, today } from "./date";
+import { newId } from "./tree";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const OFFSET_RE = /^([+-]?\d+)d$/;
+
+// The quick-add chips that used to be hardcoded in InputPanel.
+export function defaultTemplates(): Template[] {
+    return ["Daily Review", "買い物リスト作成", "議事録まとめ"].map((name) => ({ id: newId(), name, root: { text: name, children: [] } }));
+}
+
+export function formatOffset(days: number): string {
+    return `${days >= 0 ? "+" : ""}${days}d`;
+}
+
+export function parseOffset(offset: string): number | null {
+    const m = offset.trim().match(OFFSET_RE);
+    return m ? parseInt(m[1], 10) : null;
+}
+
+/** Captures a subtree as a template; due dates become offsets from `base` (today by default). */
+export function taskToTemplate(task: Task, name: string, base: string = today()): Template {
+    const toNode = (t: Task): TemplateNode => ({
+        text: t.text,
+        priority: t.priority,
+        note: t.note,
+        tags: t.tags,
+        estimate: t.estimate,
+        dueOffset: t.due ? formatOffset(Math.round((parseIsoDate(t.due).getTime() - parseIsoDate(base).getTime()) / DAY_MS)) : undefined,
+        children: t.children.map(toNode),
+    });
+    return { id: newId(), name, root: toNode(task) };
+}
+
+/** Creates a fresh Task subtree from a template, resolving due offsets against `base`. */
+export function instantiateTemplate(template: Template, base: string = today()): Task {
+    const now = new Date();
+    const toTask = (n: TemplateNode): Task => {
+        const offset = n.dueOffset ? parseOffset(n.dueOffset) : null;
+        return {
+            id: newId(),
+            text: n.text.trim() || template.name,
+            done: false,
+            children: n.children.filter((c) => c.text.trim()).map(toTask),
+            priority: n.priority,
+            due: offset === null ? undefined : addDays(base, offset),
+            note: n.note,
+            tags: n.tags,
+            estimate: n.estimate,
+            createdAt: now,
+        };
+    };
+    return toTask(template.root);
+}
+
+export function countTemplateNodes(node: TemplateNode): number {
+    return 1 + node.children.reduce((n, c) => n + countTemplateNodes(c), 0);
+}
@@ -0,0 +1,95 @@
+// src/utils/timeTracking.ts
+// Tracked work time: sessions on tasks, their roll-up, and the running timer's Pomodoro phases.
+import type { RunningTimer, Task, TimerSettings, TimeSession } from "../types";
+import { flattenTasks, mapTasks } from "./tree";
+
+// Shorter stretches are treated as accidental clicks and not recorded.
+export const MIN_SESSION_MS = 30_000;
+
+export function sessionMs(s: TimeSession): number {
+    return Math.max(0, s.end.getTime() - s.start.getTime());
+}
+
+export function trackedMs(task: Task): number {
+    return (task.sessions ?? []).reduce((sum, s) => sum + sessionMs(s), 0);
+}
+
+/** Tracked time of each task including its descendants, keyed by task id. Tasks with nothing tracked are omitted. */
+export function buildTrackedMap(tasks: Task[]): Map<string, number> {
+    const map = new Map<string, number>();
+    const visit = (t: Task): number => {
+        const total = trackedMs(t) + t.children.reduce((sum, c) => sum + visit(c), 0);
+        if (total > 0) map.set(t.id, total);
+        return total;
+    };
+    tasks.forEach(visit);
+    return map;
+}
+
+/** Time tracked on each task inside [since, until), longest first. Sessions crossing the boundary are clipped. */
+export function trackedBetween(tasks: Task[], since: Date, until: Date = new Date()): { task: Task; ms: number }[] {
+    const from = since.getTime();
+    const to = until.getTime();
+    return flattenTasks(tasks)
+        .map((task) => ({
+            task,
+            ms: (task.sessions ?? []).reduce((sum, s) => sum + Math.max(0, Math.min(s.end.getTime(), to) - Math.max(s.start.getTime(), from)), 0),
+        }))
+        .filter((entry) => entry.ms > 0)
+        .sort((a, b) => b.ms - a.ms);
+}
+
+/** The tree with the running timer's not yet recorded stretch added as a session, for totals that should count it. */
+export function withRunningSession(tasks: Task[], timer: RunningTimer | null, now: Date = new Date()): Task[] {
+    if (!timer || timer.pomodoro?.phase === "break" || now.getTime() <= timer.startedAt) return tasks;
+    const session = { start: new Date(timer.startedAt), end: now };
+    return mapTasks(tasks, (t) => (t.id === timer.taskId ? { ...t, sessions: [...(t.sessions ?? []), session] } : t));
+}
+
+export function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60_000);
+    if (minutes < 60) return `${minutes}分`;
+    const h = Math.floor(minutes / 60);
+    const m = minutes % 60;
+    return m ? `${h}時間${m}分` : `${h}時間`;
+}
+
+// "12:34" or "1:02:03" for the running clock.
+export function formatClock(ms: number): string {
+    const total = Math.max(0, Math.floor(ms / 1000));
+    const h = Math.floor(total / 3600);
+    const mm = String(Math.floor((total % 3600) / 60)).padStart(2, "0");
+    const ss = String(total % 60).padStart(2, "0");
+    return h ? `${h}:${mm}:${ss}` : `${mm}:${ss}`;
+}
+
+export function phaseLengthMs(timer: RunningTimer, settings: TimerSettings): number | null {
+    if (!timer.pomodoro) return null;
+    return (timer.pomodoro.phase === "work" ? settings.workMinutes : settings.breakMinutes) * 60_000;
+}
+
+/**
+ * Moves a Pomodoro timer past every phase that has ended by `now`.
+ * Returns the updated timer (null when it stopped) and the work sessions completed on the way.
+ * If a whole cycle went by unattended (the app was closed), the work in progress is recorded up to its end and the timer stops.
+ */
+export function advancePomodoro(
+    timer: RunningTimer,
+    settings: TimerSettings,
+    now: number
+): { timer: RunningTimer | null; sessions: TimeSession[] } {
+    const sessions: TimeSession[] = [];
+    let current: RunningTimer | null = timer;
+    while (current?.pomodoro) {
+        const length = phaseLengthMs(current, settings)!;
+        const end: number = current.startedAt + length;
+        if (end > now) break;
+        const { phase, cycle }: NonNullable<RunningTimer["pomodoro"]> = current.pomodoro;
+        if (phase === "work") sessions.push({ start: new Date(current.startedAt), end: new Date(end) });
+        const idle = now - end > (settings.workMinutes + settings.breakMinutes) * 60_000;
+        if (idle) current = null;
+        else if (phase === "work") current = { ...current, startedAt: end, pomodoro: { phase: "break", cycle } };
+        else current = { ...current, startedAt: end, pomodoro: { phase: "work", cycle: cycle + 1 } };
+    }
+    return { timer: current, sessions };
+}
@@ -0,0 +1,129 @@
+// src/utils/tree.ts
+// Immutable helpers for working with the nested Task tree.
+import type { Task } from "../types";
+
+export function newId(): string {
+    return typeof crypto !== "undefined" && "randomUUID" in crypto
+        ? crypto.randomUUID()
+        : `${Date.now()}-${Math.random().toString(16).slice(2)}`;
+}
+
+export function mapTasks(arr: Task[], f: (t: Task) => Task): Task[] {
+    return arr.map((t) => ({ ...f(t), children: mapTasks(t.children, f) }));
+}
+export function countTasks(arr: Task[], pred: (t: Task) => boolean = () => true): number {
+    let c = 0;
+    const walk = (xs: Task[]) => xs.forEach((t) => { if (pred(t)) c++; if (t.children.length) walk(t.children); });
+    walk(arr);
+    return c;
+}
+export function removeById(arr: Task[], id: string): { removed: Task | null; rest: Task[] } {
+    const rest: Task[] = [];
+    let removed: Task | null = null;
+    for (const t of arr) {
+        if (t.id === id) { removed = { ...t, children: t.children.map(clone) }; continue; }
+        const sub = removeById(t.children, id);
+        if (sub.removed) { removed = sub.removed; rest.push({ ...t, children: sub.rest }); }
+        else rest.push(t);
+    }
+    return { removed, rest };
+}
+export function insertChild(arr: Task[], parentId: string, child: Task): Task[] {
+    return arr.map((t) => (t.id === parentId ? { ...t, children: [...t.children, child] } : { ...t, children: insertChild(t.children, parentId, child) }));
+}
+// Inserts `child` at `index` among the children of `parentId` (or the top level when null).
+export function insertAt(arr: Task[], parentId: string | null, index: number, child: Task): Task[] {
+    if (parentId === null) {
+        const i = Math.max(0, Math.min(index, arr.length));
+        return [...arr.slice(0, i), child, ...arr.slice(i)];
+    }
+    return arr.map((t) => (t.id === parentId
+        ? { ...t, children: insertAt(t.children, null, index, child) }
+        : { ...t, children: insertAt(t.children, parentId, index, child) }));
+}
+// Moves `draggedId` next to `targetId`, at any level. Returns `arr` unchanged if that would create a cycle.
+export function moveBeside(arr: Task[], draggedId: string, targetId: string, position: "before" | "after"): Task[] {
+    if (draggedId === targetId || isDescendant(arr, draggedId, targetId)) return arr;
+    const { removed, rest } = removeById(arr, draggedId);
+    if (!removed) return arr;
+    const at = locate(rest, targetId);
+    if (!at) return arr;
+    return insertAt(rest, at.parentId, position === "before" ? at.index : at.index + 1, removed);
+}
+export function locate(arr: Task[], id: string, parentId: string | null = null): { parentId: string | null; index: number } | null {
+    for (let i = 0; i < arr.length; i++) {
+        if (arr[i].id === id) return { parentId, index: i };
+        const f = locate(arr[i].children, id, arr[i].id);
+        if (f) return f;
+    }
+    return null;
+}
+export function isDescendant(arr: Task[], ancestorId: string, maybeDescendantId: string): boolean {
+    const a = findById(arr, ancestorId); if (!a) return false; return !!findById(a.children, maybeDescendantId);
+}
+export function findById(arr: Task[], id: string): Task | null {
+    for (const t of arr) { if (t.id === id) return t; const f = findById(t.children, id); if (f) return f; }
+    return null;
+}
+// The chain of tasks from the top level down to `id` (inclusive), or null when not found.
+export function findPath(arr: Task[], id: string): Task[] | null {
+    for (const t of arr) {
+        if (t.id === id) return [t];
+        const sub = findPath(t.children, id);
+        if (sub) return [t, ...sub];
+    }
+    return null;
+}
+export function clone(t: Task): Task { return { ...t, children: t.children.map(clone) }; }
+
+/**
+ * Whether two trees hold the same tasks, compared by value: updaters built on mapTasks return fresh copies
+ * even when nothing changed. A key set to undefined counts as absent.
+ */
+export function sameTree(a: Task[], b: Task[]): boolean {
+    return sameValue(a, b);
+}
+function sameValue(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (a instanceof Date || b instanceof Date) return a instanceof Date && b instanceof Date && a.getTime() === b.getTime();
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b) && a.length === b.length && a.every((x, i) => sameValue(x, b[i]));
+    }
+    if (typeof a !== "object" || typeof b !== "object" || a === null || b === null) return false;
+    const x = a as Record<string, unknown>;
+    const y = b as Record<string, unknown>;
+    return [...new Set([...Object.keys(x), ...Object.keys(y)])].every((k) => sameValue(x[k], y[k]));
+}
+
+// Pre-order list with nesting depth, e.g. for indented <select> options.
+export function flattenWithDepth(tasks: Task[], depth = 0): { task: Task; depth: number }[] {
+    return tasks.flatMap((task) => [{ task, depth }, ...flattenWithDepth(task.children, depth + 1)]);
+}
+
+export function flattenTasks(tasks: Task[]): Task[] {
+    let flat: Task[] = [];
+    tasks.forEach(task => {
+        flat.push(task);
+        if (task.children.length > 0) {
+            flat = flat.concat(flattenTasks(task.children));
+        }
+    });
+    return flat;
+}
+
+// Keeps nodes matching `pred` together with all of their ancestors.
+export function filterTasks(tasks: Task[], pred: (t: Task) => boolean): Task[] {
+    const visit = (arr: Task[]): Task[] =>
+        arr
+            .map((t) => ({ ...t, children: visit(t.children) }))
+            .filter(predOrHasDescendant);
+    const predOrHasDescendant = (t: Task): boolean =>
+        pred(t) || t.children.some(predOrHasDescendant);
+    return visit(tasks);
+}
+
+// Tasks carrying any of `tags` match. Ancestors of matches stay visible.
+export function filterByTags(tasks: Task[], tags: string[]): Task[] {
+    if (tags.length === 0) return tasks;
+    return filterTasks(tasks, (t) => tags.some((tag) => t.tags?.includes(tag)));
+}
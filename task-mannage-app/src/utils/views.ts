@@ -0,0 +1,48 @@
+// src/utils/views.ts
+// Smart views: named combinations of filter query, tag filter, search and sort.
+import type { SmartView, Task } from "../types";
+import { buildBlockedMap } from "./dependencies";
+import { matchesQuery, parseQuery } from "./query";
+import { matchesSearch, parseSearchQuery } from "./search";
+
+const BUILT_IN_PREFIX = "builtin:";
+
+export function builtInViews(recentDays: number): SmartView[] {
+    const view = (id: string, name: string, filterQuery: string, sort?: Pick<SmartView, "sortKey" | "sortOrder">): SmartView =>
+        ({ id: BUILT_IN_PREFIX + id, name, filterQuery, tagFilter: [], search: "", ...sort });
+    return [
+        view("today", "今日", "-done due:today", { sortKey: "priority", sortOrder: "asc" }),
+        view("overdue", "期限切れ", "is:overdue", { sortKey: "dueDate", sortOrder: "asc" }),
+        view("week", "今週", "-done due:>=today due:<=endofweek", { sortKey: "dueDate", sortOrder: "asc" }),
+        view("recent", "最近完了", `completed:>=-${recentDays}d`),
+    ];
+}
+
+export function isBuiltInView(view: SmartView): boolean {
+    return view.id.startsWith(BUILT_IN_PREFIX);
+}
+
+/** Number of tasks the view matches itself (ancestors shown only for context are not counted). */
+export function countViewMatches(tasks: Task[], view: SmartView, now: Date = new Date()): number {
+    const query = parseQuery(view.filterQuery);
+    const words = parseSearchQuery(view.search);
+    const blocked = new Set(buildBlockedMap(tasks).keys());
+    let count = 0;
+    const visit = (arr: Task[], ancestors: Task[]) => arr.forEach((t) => {
+        const tagOk = view.tagFilter.length === 0 || view.tagFilter.some((tag) => t.tags?.includes(tag));
+        if (tagOk && matchesSearch(t, words) && matchesQuery(t, query, ancestors, now, blocked)) count++;
+        visit(t.children, [...ancestors, t]);
+    });
+    visit(tasks, []);
+    return count;
+}
+
+/** Whether the current filter state is exactly what the view sets up. */
+export function isViewActive(
+    view: SmartView,
+    state: { filterQuery: string; tagFilter: string[]; search: string; sortKey: string; sortOrder: string }
+): boolean {
+    const sameTags = view.tagFilter.length === state.tagFilter.length && view.tagFilter.every((t) => state.tagFilter.includes(t));
+    const sameSort = !view.sortKey || (view.sortKey === state.sortKey && view.sortOrder === state.sortOrder);
+    return view.filterQuery.trim() === state.filterQuery.trim() && view.search.trim() === state.search.trim() && sameTags && sameSort;
+}